@@ -7,6 +7,8 @@
  * SINGLETON: Designed to persist across component mounts/unmounts
  */
 
+import { applyJsonPatch } from './src/shared/providers/JsonPatch';
+
 export class ElectronDataProvider {
     static instance = null;
     
@@ -21,7 +23,11 @@ export class ElectronDataProvider {
 
         // IPC event handlers - persist for singleton lifetime
         this.handleRiveConfig = null;
+        this.handleConfigPatch = null;
         this.handleSensorData = null;
+
+        // Last rive_config as main sent it, the base for rive-config-patch
+        this.lastConfig = null;
     }
 
     static getInstance(options) {
@@ -38,6 +44,7 @@ export class ElectronDataProvider {
             instance.configCallbacks = [];
             instance.sensorCallbacks = [];
             instance.statusCallbacks = [];
+            instance.lastConfig = null;
             instance.setConnectionStatus('disconnected');
             ElectronDataProvider.instance = null;
             console.log('[ElectronDataProvider] Instance reset');
@@ -93,6 +100,14 @@ export class ElectronDataProvider {
         };
     }
 
+    // Main broadcasts device events to the connected hosts as device-event documents
+    send(event) {
+        const { ipcRenderer } = require('electron');
+        if (!ipcRenderer) return;
+
+        ipcRenderer.send('device-event', { ...event, timestamp: event.timestamp ?? Date.now() });
+    }
+
     connect() {
         const { ipcRenderer } = require('electron');
         
@@ -146,6 +161,7 @@ export class ElectronDataProvider {
         console.log('[ElectronDataProvider] Setting up IPC listeners');
 
         this.handleRiveConfig = (_event, data) => {
+            this.lastConfig = data;
             try {
                 const transformedConfig = {
                     type: "rive_config",
@@ -170,6 +186,21 @@ export class ElectronDataProvider {
             }
         };
 
+        // Main already applied the patch to its cache; a patch that doesn't apply here means this
+        // window missed an update, so it asks for the full layout instead
+        this.handleConfigPatch = (_event, { patch }) => {
+            let patched;
+            try {
+                if (!this.lastConfig) throw new Error('no layout to patch');
+                patched = applyJsonPatch(this.lastConfig, patch);
+            } catch (error) {
+                console.warn('[ElectronDataProvider] Config patch failed, requesting full config:', error.message);
+                ipcRenderer.send('request-cached-data');
+                return;
+            }
+            this.handleRiveConfig(null, patched);
+        };
+
         this.handleSensorData = (_event, data) => {
             try {
                 // Transform to match SensorPayload interface
@@ -192,9 +223,13 @@ export class ElectronDataProvider {
             } catch (error) {
                 console.error('[ElectronDataProvider] Error processing sensor data:', error);
             }
+
+            // Main holds back the next (merged) batch until this one has reached the screen
+            requestAnimationFrame(() => ipcRenderer.send('rive-sensor-ack'));
         };
 
         ipcRenderer.on("rive-config", this.handleRiveConfig);
+        ipcRenderer.on("rive-config-patch", this.handleConfigPatch);
         ipcRenderer.on("rive-sensor-data", this.handleSensorData);
         console.log('[ElectronDataProvider] IPC listeners registered');
     }
@@ -210,6 +245,11 @@ export class ElectronDataProvider {
             this.handleRiveConfig = null;
         }
 
+        if (this.handleConfigPatch) {
+            ipcRenderer.off("rive-config-patch", this.handleConfigPatch);
+            this.handleConfigPatch = null;
+        }
+
         if (this.handleSensorData) {
             ipcRenderer.off("rive-sensor-data", this.handleSensorData);
             this.handleSensorData = null;
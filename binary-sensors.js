@@ -0,0 +1,72 @@
+const { decode } = require('@msgpack/msgpack');
+
+// Binary sensor frames (type 0x0003) are MessagePack maps:
+//   { s?: screenId, t: [[tagIndex, value, displayValue?], ...] }
+// Tag indices refer to the sensorTags table sent with the screen's rive_config, where each entry is
+// either a tag name or { tag, unit }. Frames expand to the same rive_sensor document as JSON updates.
+class SensorTagTables {
+  constructor() {
+    this.tables = new Map(); // screenId -> [{ tag, unit }]
+  }
+
+  setTable(screenId, sensorTags) {
+    const table = sensorTags.map((entry) => (
+      typeof entry === 'string'
+        ? { tag: entry, unit: '' }
+        : { tag: String(entry?.tag ?? ''), unit: entry?.unit ?? '' }
+    ));
+    this.tables.set(screenId, table);
+    console.log(`[BinarySensors] Tag table for ${screenId}: ${table.length} tags`);
+  }
+
+  hasTable(screenId) {
+    return this.tables.has(screenId);
+  }
+
+  // Drops the tables of screens the predicate rejects
+  retain(predicate) {
+    for (const screenId of this.tables.keys()) {
+      if (!predicate(screenId)) this.tables.delete(screenId);
+    }
+  }
+
+  clear() {
+    this.tables.clear();
+  }
+
+  // Decodes a frame into a rive_sensor document; screenId is used when the frame does not name one
+  decode(buf, screenId) {
+    const packet = decode(buf);
+    if (!packet || typeof packet !== 'object' || !Array.isArray(packet.t)) {
+      throw new Error('Binary sensor frame must be a map with a "t" array');
+    }
+
+    const targetScreenId = packet.s ?? screenId;
+    const table = this.tables.get(targetScreenId);
+    if (!table) {
+      throw new Error(`No sensor tag table for screen ${targetScreenId}`);
+    }
+
+    const sensors = {};
+    for (const update of packet.t) {
+      if (!Array.isArray(update)) continue;
+
+      const [index, value, displayValue] = update;
+      const entry = table[index];
+      if (!entry) {
+        console.warn(`[BinarySensors] Unknown tag index ${index} for ${targetScreenId}`);
+        continue;
+      }
+
+      sensors[entry.tag] = {
+        value,
+        unit: entry.unit,
+        displayValue: displayValue ?? String(value)
+      };
+    }
+
+    return { type: 'rive_sensor', screenId: targetScreenId, sensors };
+  }
+}
+
+module.exports = { SensorTagTables };
@@ -0,0 +1,17 @@
+// Protocol capabilities announced to hosts in device-connected and heartbeat-response.
+// Bump PROTOCOL_VERSION when the wire format changes in a way older hosts cannot handle.
+const PROTOCOL_VERSION = 1;
+
+// Element types FrameEngine2_Renderer_Elements can render; keep in sync with its switch
+const ELEMENT_TYPES = ['sensor', 'text', 'gauge', 'timedate', 'media-image', 'media-video', 'media-rive', 'ecg'];
+
+// Largest layout canvas the visualization window is expected to render
+const CANVAS_LIMITS = { minWidth: 1, minHeight: 1, maxWidth: 7680, maxHeight: 4320 };
+
+// Events the screen sends back to hosts as device-event documents; keep in sync with DeviceEventType
+const DEVICE_EVENT_TYPES = ['touch', 'click', 'rive_event', 'state_change', 'ack', 'render_error'];
+
+// JSON documents hosts may send; the _patch/_delta variants apply to the last full document for the screen
+const DOCUMENT_TYPES = ['rive_config', 'rive_config_patch', 'rive_sensor', 'rive_sensor_delta'];
+
+module.exports = { PROTOCOL_VERSION, ELEMENT_TYPES, CANVAS_LIMITS, DEVICE_EVENT_TYPES, DOCUMENT_TYPES };
@@ -0,0 +1,46 @@
+// Error raised by command handlers; `code` is sent back to the host in the error reply
+class CommandError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'CommandError';
+    this.code = code;
+  }
+}
+
+class CommandDispatcher {
+  constructor() {
+    this.handlers = new Map();
+  }
+
+  register(name, handler) {
+    this.handlers.set(name, handler);
+    return this;
+  }
+
+  has(name) {
+    return this.handlers.has(name);
+  }
+
+  getCommandNames() {
+    return Array.from(this.handlers.keys());
+  }
+
+  // Runs a COMMAND document ({ command, id?, params? }) and resolves with the handler result
+  async dispatch(doc, context = {}) {
+    const name = doc?.command;
+    if (!name || typeof name !== 'string') {
+      throw new CommandError('invalid_command', 'Command document is missing a "command" field');
+    }
+
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      throw new CommandError('unknown_command', `Unknown command: ${name}`);
+    }
+
+    console.log(`[Command] Dispatching ${name}${doc.id ? ` (id=${doc.id})` : ''}`);
+    const result = await handler(doc.params || {}, context);
+    return result ?? null;
+  }
+}
+
+module.exports = { CommandDispatcher, CommandError };
@@ -0,0 +1,166 @@
+const http = require('http');
+const https = require('https');
+
+// Largest JSON body accepted by POST routes; layouts can embed data URIs
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+// Error raised by route handlers; `status` becomes the HTTP status and `code` goes in the JSON body
+class HttpError extends Error {
+  constructor(status, code, message) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Non-JSON response body (e.g. a PNG screenshot)
+class RawResponse {
+  constructor(contentType, body) {
+    this.contentType = contentType;
+    this.body = body;
+  }
+}
+
+// Small HTTP API served next to the WebSocket port so scripts can inspect and drive the device with curl.
+// Handlers receive { query, body, token } and resolve with a JSON-serialisable value or a RawResponse.
+// Bearer tokens must not cross the network in the clear: with TLS credentials ({ cert, key }, the same
+// ones the WebSocket server uses) it serves HTTPS on every interface, without them only loopback HTTP.
+class HttpApiServer {
+  constructor(port = 8082, { tls = null } = {}) {
+    this.port = port;
+    this.tls = tls;
+    this.host = tls ? '0.0.0.0' : '127.0.0.1';
+    this.server = null;
+    this.routes = new Map(); // 'GET /status' -> handler
+    this.authorize = null; // Called with the bearer token (or null); returning false answers 401
+  }
+
+  route(method, path, handler) {
+    this.routes.set(`${method} ${path}`, handler);
+    return this;
+  }
+
+  start() {
+    if (this.server) {
+      console.log('[HTTP] Server already running');
+      return;
+    }
+
+    const listener = (req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        console.error('[HTTP] Request failed:', err);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: { code: 'internal_error', message: err.message } });
+        }
+      });
+    };
+    this.server = this.tls
+      ? https.createServer({ cert: this.tls.cert, key: this.tls.key }, listener)
+      : http.createServer(listener);
+
+    this.server.on('error', (err) => {
+      console.error('[HTTP] Server error:', err);
+    });
+
+    this.server.listen(this.port, this.host, () => {
+      const scheme = this.tls ? 'https' : 'http';
+      console.log(`[HTTP] ✅ Status API listening on ${scheme}://${this.host}:${this.port}`);
+    });
+  }
+
+  stop() {
+    if (!this.server) return;
+
+    this.server.close();
+    this.server.closeAllConnections?.();
+    this.server = null;
+    console.log('[HTTP] Server stopped');
+  }
+
+  isRunning() {
+    return !!this.server;
+  }
+
+  async handleRequest(req, res) {
+    const url = new URL(req.url, 'http://localhost');
+    const pathname = url.pathname.replace(/\/+$/, '') || '/';
+    const handler = this.routes.get(`${req.method} ${pathname}`);
+
+    if (!handler) {
+      const allowed = Array.from(this.routes.keys())
+        .filter(route => route.endsWith(` ${pathname}`))
+        .map(route => route.split(' ')[0]);
+      if (allowed.length > 0) {
+        res.setHeader('Allow', allowed.join(', '));
+        this.sendJson(res, 405, { error: { code: 'method_not_allowed', message: `${req.method} is not supported on ${pathname}` } });
+      } else {
+        this.sendJson(res, 404, { error: { code: 'not_found', message: `No route for ${pathname}` } });
+      }
+      return;
+    }
+
+    const token = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+    if (this.authorize && !this.authorize(token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJson(res, 401, { error: { code: 'unauthorized', message: 'A paired host token is required' } });
+      return;
+    }
+
+    try {
+      const body = req.method === 'POST' ? await this.readJsonBody(req) : null;
+      const query = Object.fromEntries(url.searchParams);
+      const result = await handler({ query, body, token });
+
+      if (result instanceof RawResponse) {
+        res.writeHead(200, { 'Content-Type': result.contentType, 'Content-Length': result.body.length });
+        res.end(result.body);
+      } else {
+        this.sendJson(res, 200, result ?? { ok: true });
+      }
+    } catch (err) {
+      if (err instanceof HttpError) {
+        this.sendJson(res, err.status, { error: { code: err.code, message: err.message } });
+        return;
+      }
+      throw err;
+    }
+  }
+
+  readJsonBody(req) {
+    return new Promise((resolve, reject) => {
+      const chunks = [];
+      let length = 0;
+
+      // Oversized bodies are drained rather than buffered so the 413 reply still reaches the client
+      req.on('data', (chunk) => {
+        length += chunk.length;
+        if (length <= MAX_BODY_BYTES) {
+          chunks.push(chunk);
+        }
+      });
+
+      req.on('end', () => {
+        if (length > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'body_too_large', `Body exceeds ${MAX_BODY_BYTES} bytes`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch (e) {
+          reject(new HttpError(400, 'invalid_json', `Body is not valid JSON: ${e.message}`));
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  sendJson(res, status, value) {
+    const body = Buffer.from(JSON.stringify(value));
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': body.length });
+    res.end(body);
+  }
+}
+
+module.exports = { HttpApiServer, HttpError, RawResponse };
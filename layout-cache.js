@@ -0,0 +1,291 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { Readable } = require('stream');
+const { pipeline } = require('stream/promises');
+
+// The last rive_config of each screen route is kept on disk with the asset files it references, so a
+// screen can show its layout after a restart before any host has connected.
+//   <dir>/route-<n>.json   { version, savedAt, screenId, config, assets: { url: file } }
+//   <dir>/assets/<file>    shared by every route; files no route references are deleted once saves settle
+// Restored layouts point their assets at layout-cache://assets/<file>, served by main.js.
+const CACHE_VERSION = 1;
+const LAYOUT_CACHE_SCHEME = 'layout-cache';
+const ASSET_HOST = 'assets';
+
+// Patches and config bursts settle before the layout is written
+const SAVE_DELAY_MS = 1000;
+const DOWNLOAD_TIMEOUT_MS = 30000;
+// Largest asset file kept; bigger ones stay remote so one URL cannot fill the disk
+const MAX_ASSET_BYTES = 100 * 1024 * 1024;
+// Per saved layout, so a layout listing many URLs cannot either; assets past these stay remote
+const MAX_LAYOUT_ASSETS = 32;
+const MAX_LAYOUT_ASSET_BYTES = 256 * 1024 * 1024;
+
+const ASSET_FILE = /^[0-9a-f]{32}(\.[0-9a-z]{1,8})?$/;
+const ROUTE_FILE = /^route-(\d+)\.json$/;
+
+// Calls fn on every asset reference (background image/video/Rive, element filename) and returns
+// a copy of the config with the values it returns; the input is left untouched
+function mapAssetRefs(config, fn) {
+  const background = config?.frameConfig?.background;
+  const mappedBackground = background && { ...background };
+  if (mappedBackground) {
+    for (const key of ['imageUrl', 'videoUrl', 'riveFile']) {
+      if (mappedBackground[key]) mappedBackground[key] = fn(mappedBackground[key]);
+    }
+  }
+
+  const elements = Array.isArray(config?.frameElements)
+    ? config.frameElements.map(element => (element?.properties?.filename
+      ? { ...element, properties: { ...element.properties, filename: fn(element.properties.filename) } }
+      : element))
+    : config?.frameElements;
+
+  return {
+    ...config,
+    frameConfig: mappedBackground ? { ...config.frameConfig, background: mappedBackground } : config?.frameConfig,
+    frameElements: elements
+  };
+}
+
+function assetFileName(url) {
+  const hash = crypto.createHash('sha256').update(url).digest('hex').slice(0, 32);
+  let ext = '';
+  try {
+    ext = path.extname(new URL(url).pathname).toLowerCase();
+  } catch (err) {
+    // Not a URL; no extension
+  }
+  return /^\.[0-9a-z]{1,8}$/.test(ext) ? `${hash}${ext}` : hash;
+}
+
+// Passes chunks through until more than maxBytes have streamed, then fails the pipeline
+function limitBytes(maxBytes) {
+  return async function* (source) {
+    let total = 0;
+    for await (const chunk of source) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        throw new Error(`Asset is larger than ${maxBytes} bytes`);
+      }
+      yield chunk;
+    }
+  };
+}
+
+async function download(url, target, maxBytes) {
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok || !response.body) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  // Content-Length is only a hint; the streamed byte count is what is enforced
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    await response.body.cancel();
+    throw new Error(`Asset is larger than ${maxBytes} bytes (Content-Length ${declaredLength})`);
+  }
+
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await pipeline(Readable.fromWeb(response.body), limitBytes(maxBytes), fs.createWriteStream(temp));
+    fs.renameSync(temp, target);
+  } catch (err) {
+    fs.rmSync(temp, { force: true });
+    throw err;
+  }
+}
+
+function writeFileAtomic(filePath, data) {
+  const temp = `${filePath}.tmp`;
+  fs.writeFileSync(temp, data);
+  fs.renameSync(temp, filePath);
+}
+
+class LayoutCache {
+  constructor(directory) {
+    this.directory = directory;
+    this.assetDirectory = path.join(directory, 'assets');
+    this.pending = new Map(); // route -> save timer
+    this.generations = new Map(); // route -> number of the latest save, so a slow save can't overwrite a newer one
+    this.writing = 0; // writes still downloading assets
+    this.pruneRequested = false;
+  }
+
+  getRouteFile(route) {
+    return path.join(this.directory, `route-${route}.json`);
+  }
+
+  getAssetUrl(file) {
+    return `${LAYOUT_CACHE_SCHEME}://${ASSET_HOST}/${file}`;
+  }
+
+  // File behind a layout-cache:// URL, or null if the URL is not one of ours
+  resolveAssetUrl(url) {
+    let parsed;
+    try {
+      parsed = new URL(url);
+    } catch (err) {
+      return null;
+    }
+    if (parsed.protocol !== `${LAYOUT_CACHE_SCHEME}:` || parsed.hostname !== ASSET_HOST) return null;
+
+    const file = parsed.pathname.slice(1);
+    return ASSET_FILE.test(file) ? path.join(this.assetDirectory, file) : null;
+  }
+
+  listRoutes() {
+    try {
+      return fs.readdirSync(this.directory)
+        .map(name => ROUTE_FILE.exec(name))
+        .filter(Boolean)
+        .map(match => Number(match[1]));
+    } catch (err) {
+      return [];
+    }
+  }
+
+  // Saved layout for a route with its assets pointed at the cache: { config, screenId, savedAt } or null
+  load(route) {
+    let saved;
+    try {
+      saved = JSON.parse(fs.readFileSync(this.getRouteFile(route), 'utf8'));
+    } catch (err) {
+      if (err.code !== 'ENOENT') console.error(`[LayoutCache] Could not read layout for route ${route}:`, err.message);
+      return null;
+    }
+    if (saved?.version !== CACHE_VERSION || !saved.config) return null;
+
+    const assets = saved.assets || {};
+    const config = mapAssetRefs(saved.config, (ref) => {
+      const file = assets[ref];
+      return file && fs.existsSync(path.join(this.assetDirectory, file)) ? this.getAssetUrl(file) : ref;
+    });
+    return { config, screenId: saved.screenId ?? null, savedAt: saved.savedAt ?? null };
+  }
+
+  // Replaces the route's saved layout once updates settle; asset downloads happen in the background
+  save(route, config) {
+    clearTimeout(this.pending.get(route));
+    const generation = (this.generations.get(route) || 0) + 1;
+    this.generations.set(route, generation);
+
+    this.pending.set(route, setTimeout(() => {
+      this.pending.delete(route);
+      this.write(route, config, generation).catch((err) => {
+        console.error(`[LayoutCache] Could not save layout for route ${route}:`, err.message);
+      });
+    }, SAVE_DELAY_MS));
+  }
+
+  async write(route, config, generation) {
+    this.writing++;
+    try {
+      await this.writeLayout(route, config, generation);
+    } finally {
+      this.writing--;
+      this.pruneAssets();
+    }
+  }
+
+  async writeLayout(route, config, generation) {
+    fs.mkdirSync(this.assetDirectory, { recursive: true });
+
+    const refs = new Set();
+    mapAssetRefs(config, (ref) => {
+      refs.add(ref);
+      return ref;
+    });
+
+    // A restored layout that was patched still refers to the cache itself; those files are kept
+    const assets = {};
+    let assetBytes = 0;
+    for (const ref of refs) {
+      const cachedPath = this.resolveAssetUrl(ref);
+      if (cachedPath && fs.existsSync(cachedPath)) {
+        assets[ref] = path.basename(cachedPath);
+        assetBytes += fs.statSync(cachedPath).size;
+      }
+    }
+
+    for (const ref of refs) {
+      // Uploaded filenames are only reachable through the host, so only full URLs are cached
+      if (!/^https?:\/\//i.test(ref)) continue;
+
+      if (Object.keys(assets).length >= MAX_LAYOUT_ASSETS) {
+        console.warn(`[LayoutCache] Layout for route ${route} has more than ${MAX_LAYOUT_ASSETS} assets, the rest stay remote`);
+        break;
+      }
+
+      const file = assetFileName(ref);
+      const target = path.join(this.assetDirectory, file);
+      const budget = Math.min(MAX_ASSET_BYTES, MAX_LAYOUT_ASSET_BYTES - assetBytes);
+      try {
+        if (!fs.existsSync(target)) await download(ref, target, budget);
+        // Another route may have downloaded the file before this layout's budget ran low
+        const size = fs.statSync(target).size;
+        if (size > budget) throw new Error(`Asset does not fit the ${MAX_LAYOUT_ASSET_BYTES} byte layout budget`);
+        assetBytes += size;
+        assets[ref] = file;
+      } catch (err) {
+        console.warn(`[LayoutCache] Could not cache asset ${ref}: ${err.message}`);
+      }
+    }
+
+    // A newer config arrived while the assets were downloading
+    if (this.generations.get(route) !== generation) return;
+
+    writeFileAtomic(this.getRouteFile(route), JSON.stringify({
+      version: CACHE_VERSION,
+      savedAt: Date.now(),
+      screenId: config.screenId ?? null,
+      config,
+      assets
+    }));
+    console.log(`[LayoutCache] Saved layout for route ${route} (${Object.keys(assets).length} assets)`);
+    this.pruneRequested = true;
+  }
+
+  // Deletes asset files that no saved layout of any route refers to any more. Runs only once no save is
+  // waiting or downloading, since those may be about to reference files no saved layout mentions yet.
+  pruneAssets() {
+    if (!this.pruneRequested || this.writing > 0 || this.pending.size > 0) return;
+    this.pruneRequested = false;
+
+    const referenced = new Set();
+    for (const route of this.listRoutes()) {
+      try {
+        const saved = JSON.parse(fs.readFileSync(this.getRouteFile(route), 'utf8'));
+        Object.values(saved.assets || {}).forEach(file => referenced.add(file));
+      } catch (err) {
+        // Unreadable layouts are ignored by load() too
+      }
+    }
+
+    let files;
+    try {
+      files = fs.readdirSync(this.assetDirectory);
+    } catch (err) {
+      return;
+    }
+    for (const file of files) {
+      if (ASSET_FILE.test(file) && !referenced.has(file)) {
+        fs.rmSync(path.join(this.assetDirectory, file), { force: true });
+      }
+    }
+  }
+
+  clear() {
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+    // Saves still downloading see a newer generation and drop their result
+    for (const route of this.generations.keys()) {
+      this.generations.set(route, this.generations.get(route) + 1);
+    }
+    fs.rmSync(this.directory, { recursive: true, force: true });
+    console.log('[LayoutCache] Cleared');
+  }
+}
+
+module.exports = { LayoutCache, LAYOUT_CACHE_SCHEME };
@@ -1,7 +1,21 @@
-const { app, BrowserWindow, ipcMain, screen, Tray, Menu } = require('electron');
+const { app, BrowserWindow, ipcMain, screen, Tray, Menu, dialog, protocol, net } = require('electron');
 const path = require('path');
 const fs = require('fs');
+const os = require('os');
+const { pathToFileURL } = require('url');
 const { WebSocketServerManager } = require('./websocket-server');
+const { CommandDispatcher, CommandError } = require('./command-dispatcher');
+const { PairingManager } = require('./pairing-manager');
+const { loadOrCreateCertificate } = require('./tls-certificate');
+const { MdnsAdvertiser } = require('./mdns-advertiser');
+const { SessionRecorder, SessionPlayer } = require('./session-recorder');
+const { PROTOCOL_VERSION, CANVAS_LIMITS, DEVICE_EVENT_TYPES } = require('./capabilities');
+const { applyJsonPatch, validateJsonPatch, JsonPatchError } = require('./dist-main/shared/providers/JsonPatch');
+const { LayoutCache, LAYOUT_CACHE_SCHEME } = require('./layout-cache');
+const { SensorTagTables } = require('./binary-sensors');
+const { SensorCoalescer, DEFAULT_MAX_RATE } = require('./sensor-coalescer');
+const { HttpApiServer, HttpError, RawResponse } = require('./http-api');
+const { MetricsWriter, CONTENT_TYPE: METRICS_CONTENT_TYPE } = require('./metrics');
 
 console.log('Platform:', process.platform, process.arch);
 
@@ -15,18 +29,62 @@ if (process.platform === 'linux' && (process.arch === 'arm' || process.arch ===
 }
 
 let mainWindow = null;
-let visualizationWindow = null;
 let wsServer = null;
+let httpApi = null;
 let tray = null;
 
-// Cache for WebSocket messages
-let cachedConfig = null;
-let cachedSensor = null;
+// Visualization screens keyed by the header route field (route 0 is the default screen).
+// Each screen owns its window, rive_config/rive_sensor cache and framebuffer display mode.
+const screens = new Map();
+
+// Routes come from clients, so only this many screens (including route 0) are ever registered
+const MAX_SCREENS = 16;
+
+// Last config and sensor payload per screenId, used by the switch_screen command.
+// screenIds come from clients, so beyond MAX_CACHED_SCREEN_IDS the least recently sent ones that no
+// screen is showing are dropped, together with their sensor tag tables.
+const MAX_CACHED_SCREEN_IDS = 32;
+const cachedConfigs = new Map();
+const cachedSensors = new Map();
+
+// sensorTags tables from rive_config, used to expand binary (0x0003) sensor frames
+const sensorTagTables = new SensorTagTables();
+
+// rive_sensor updates merged per tag and paced by renderer acks, keyed by screen route
+const sensorCoalescer = new SensorCoalescer();
+sensorCoalescer.onFlush = (route, doc) => {
+  const entry = getScreen(route);
+  if (isScreenOpen(entry)) {
+    entry.window.webContents.send('rive-sensor-data', doc);
+  }
+};
+
+// Device brightness set by the set_brightness command (0-255, same scale as jr_brightness)
+let deviceBrightness = 255;
+
+// Device events sent upstream from the visualization windows, counted per type for /metrics
+const deviceEventCounts = new Map();
 
 // Preferences storage
 const userDataPath = app.getPath('userData');
 const prefsPath = path.join(userDataPath, 'preferences.json');
 
+// Self-signed wss:// certificate generated on first use
+const tlsStorePath = path.join(userDataPath, 'tls');
+
+// Last layout of each screen and its assets, shown at startup until a host sends a newer one
+const layoutCache = new LayoutCache(path.join(userDataPath, 'layout-cache'));
+
+// Cached assets are fetched by Rive and media elements, so the scheme needs fetch and streaming support
+protocol.registerSchemesAsPrivileged([
+  { scheme: LAYOUT_CACHE_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true } }
+]);
+
+// Recorded protocol sessions (JSONL), replayable from the tray
+const sessionsPath = path.join(userDataPath, 'sessions');
+const sessionRecorder = new SessionRecorder(sessionsPath);
+const sessionPlayer = new SessionPlayer();
+
 function loadPreferences() {
   try {
     if (fs.existsSync(prefsPath)) {
@@ -46,6 +104,27 @@ function savePreferences(prefs) {
   }
 }
 
+// Host pairing; the one-time code is shown on every open visualization window
+const pairingManager = new PairingManager({ loadPreferences, savePreferences });
+
+pairingManager.onCodeChanged = (pairingCode) => {
+  for (const entry of getOpenScreens()) {
+    entry.window.webContents.send('pairing-code', pairingCode);
+  }
+};
+
+pairingManager.onHostsChanged = (hosts) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('paired-hosts-changed', hosts);
+  }
+};
+
+pairingManager.onHostRevoked = (hostId) => {
+  if (wsServer) {
+    wsServer.disconnectHost(hostId);
+  }
+};
+
 function getDisplays() {
   if (!app.isReady()) {
     return [];
@@ -103,6 +182,59 @@ function createTray() {
 
   tray = new Tray(iconPath);
   
+  tray.setToolTip('JunctionRelay Virtual Device');
+  updateTrayMenu();
+  
+  // Double-click to show main window
+  tray.on('double-click', () => {
+    if (mainWindow) {
+      mainWindow.show();
+      mainWindow.focus();
+    }
+  });
+  
+  console.log('[Tray] System tray icon created');
+}
+
+// Rebuild the tray menu; recording and replay entries depend on their current state
+function updateTrayMenu() {
+  if (!tray) return;
+
+  const replayItems = sessionPlayer.isPlaying()
+    ? [
+        ...(sessionPlayer.isStepping() ? [{ label: 'Next Step', click: () => sessionPlayer.step() }] : []),
+        {
+          label: 'Stop Replay',
+          click: () => {
+            sessionPlayer.stop();
+            updateTrayMenu();
+          }
+        }
+      ]
+    : [
+        {
+          label: 'Replay Session…',
+          submenu: [
+            { label: 'Real Time…', click: () => replaySession('realtime') },
+            { label: 'Fast (4×)…', click: () => replaySession('fast') },
+            { label: 'Step by Step…', click: () => replaySession('step') }
+          ]
+        }
+      ];
+
+  const demoItems = getScreen(0).demo
+    ? [{ label: 'Stop Demo Mode', click: () => stopDemoMode() }]
+    : [
+        {
+          label: 'Demo Mode',
+          submenu: [
+            { label: 'Current Layout', click: () => startDemoMode('current') },
+            { label: 'Layout File…', click: () => startDemoMode('file') },
+            { label: 'With CSV Data…', click: () => startDemoMode('csv') }
+          ]
+        }
+      ];
+
   const contextMenu = Menu.buildFromTemplate([
     {
       label: 'Settings',
@@ -116,21 +248,33 @@ function createTray() {
     {
       label: 'Toggle Visualization',
       click: () => {
-        if (visualizationWindow && !visualizationWindow.isDestroyed()) {
-          visualizationWindow.close();
+        if (getOpenScreens().length > 0) {
+          closeVisualizationWindows();
+        } else {
+          // Open the default screen plus every routed screen that already has a layout
+          openVisualizationFromPreferences(0);
+          for (const entry of screens.values()) {
+            if (entry.route !== 0 && entry.cachedConfig) {
+              openVisualizationFromPreferences(entry.route);
+            }
+          }
+        }
+      }
+    },
+    { type: 'separator' },
+    {
+      label: sessionRecorder.isRecording() ? 'Stop Recording' : 'Start Recording',
+      click: () => {
+        if (sessionRecorder.isRecording()) {
+          sessionRecorder.stop();
         } else {
-          const prefs = loadPreferences();
-          const fullscreen = prefs.fullscreenMode ?? true;
-          const hideCursor = prefs.hideCursor ?? true;
-          const displayId = prefs.displayId ?? null;
-          const fpsPosition = prefs.fpsPosition ?? 'top-left';
-          const retryInterval = prefs.retryInterval ?? 1;
-          const maxRetries = prefs.maxRetries ?? 5;
-          const monitorBehavior = prefs.monitorBehavior ?? 'wait';
-          openVisualizationWindow({ fullscreen, hideCursor, displayId, fpsPosition, retryInterval, maxRetries, monitorBehavior });
+          sessionRecorder.start();
         }
+        updateTrayMenu();
       }
     },
+    ...replayItems,
+    ...demoItems,
     { type: 'separator' },
     {
       label: 'Quit',
@@ -144,18 +288,134 @@ function createTray() {
     }
   ]);
   
-  tray.setToolTip('JunctionRelay Virtual Device');
   tray.setContextMenu(contextMenu);
-  
-  // Double-click to show main window
-  tray.on('double-click', () => {
-    if (mainWindow) {
-      mainWindow.show();
-      mainWindow.focus();
+}
+
+// Pick a recorded session and replay it in real time, 4x speed, or one entry per "Next Step"
+async function replaySession(mode) {
+  const result = await dialog.showOpenDialog({
+    title: 'Replay session',
+    defaultPath: sessionsPath,
+    properties: ['openFile'],
+    filters: [{ name: 'Session recordings', extensions: ['jsonl'] }]
+  });
+  if (result.canceled || !result.filePaths[0]) return;
+
+  try {
+    sessionPlayer.load(result.filePaths[0]);
+  } catch (err) {
+    console.error('[Main] Failed to load session:', err);
+    dialog.showErrorBox('Replay session', `Could not read the session file: ${err.message}`);
+    return;
+  }
+
+  // Replays are usually run without a host, so make sure there is something to watch
+  if (getOpenScreens().length === 0) {
+    openVisualizationFromPreferences(0);
+  }
+
+  if (mode === 'step') {
+    sessionPlayer.startStepping();
+  } else {
+    sessionPlayer.play(mode === 'fast' ? 4 : 1);
+  }
+  updateTrayMenu();
+}
+
+sessionPlayer.onEntry = (entry) => {
+  const meta = { route: entry.route ?? 0, replay: true };
+  if (entry.kind === 'command') {
+    commandDispatcher.dispatch(entry.doc, meta).catch((err) => {
+      console.error(`[Main] Replayed command ${entry.doc?.command} failed:`, err.message);
+    });
+  } else {
+    forwardMessageToRenderer(entry.doc, meta);
+  }
+};
+
+sessionPlayer.onFinished = () => updateTrayMenu();
+
+// Demo mode animates the default screen with generated sensor data so layouts can be shown without a host.
+// 'current' uses the last received layout, 'file' asks for a layout, 'csv' also replays a CSV whose columns are sensor tags.
+async function startDemoMode(source) {
+  const entry = getScreen(0);
+  let config = source === 'file' ? null : entry.cachedConfig;
+  let csv = null;
+
+  if (!config) {
+    config = await pickDemoLayout();
+    if (!config) return;
+  }
+
+  if (source === 'csv') {
+    const result = await dialog.showOpenDialog({
+      title: 'Demo data',
+      properties: ['openFile'],
+      filters: [{ name: 'CSV files', extensions: ['csv'] }]
+    });
+    if (result.canceled || !result.filePaths[0]) return;
+
+    try {
+      csv = fs.readFileSync(result.filePaths[0], 'utf8');
+    } catch (err) {
+      console.error('[Main] Failed to read demo data:', err);
+      dialog.showErrorBox('Demo mode', `Could not read the CSV file: ${err.message}`);
+      return;
     }
+  }
+
+  // Every CSV column drives the sensor tag of the same name, one row per second
+  const generators = {};
+  if (csv) {
+    const header = csv.split(/\r?\n/, 1)[0].split(',').map(name => name.trim()).filter(Boolean);
+    for (const tag of header) {
+      generators[tag] = { type: 'csv', column: tag, rate: 1 };
+    }
+  }
+
+  entry.demo = { config, generators, csv };
+  console.log(`[Main] Demo mode started (${source})`);
+
+  if (isScreenOpen(entry)) {
+    entry.window.webContents.send('set-demo-mode', entry.demo);
+  } else {
+    openVisualizationFromPreferences(0);
+  }
+  updateTrayMenu();
+}
+
+function stopDemoMode() {
+  const entry = getScreen(0);
+  if (!entry.demo) return;
+
+  entry.demo = null;
+  console.log('[Main] Demo mode stopped');
+
+  if (isScreenOpen(entry)) {
+    entry.window.webContents.send('set-demo-mode', null);
+  }
+  updateTrayMenu();
+}
+
+async function pickDemoLayout() {
+  const result = await dialog.showOpenDialog({
+    title: 'Demo layout',
+    properties: ['openFile'],
+    filters: [{ name: 'Layouts', extensions: ['json'] }]
   });
-  
-  console.log('[Tray] System tray icon created');
+  if (result.canceled || !result.filePaths[0]) return null;
+
+  try {
+    const doc = JSON.parse(fs.readFileSync(result.filePaths[0], 'utf8'));
+    if (!doc || typeof doc.frameConfig !== 'object') {
+      throw new Error('the file has no frameConfig');
+    }
+    return { ...doc, type: 'rive_config' };
+  } catch (err) {
+    console.error('[Main] Failed to load demo layout:', err);
+    dialog.showErrorBox('Demo mode', `Could not load the layout: ${err.message}`);
+    return null;
+  }
 }
 
 function createWindow() {
@@ -186,7 +446,7 @@ function createWindow() {
     }
     
     // Send cached data to main window
-    sendCachedData(mainWindow);
+    sendCachedData(mainWindow, getScreen(0));
   });
 
   // Prevent window from closing, hide it instead
@@ -210,80 +470,207 @@ function createWindow() {
   });
 }
 
+// Screen for a route, registering it on first use; null for an invalid route or once MAX_SCREENS exist
+function getScreen(route) {
+  let entry = screens.get(route);
+  if (!entry) {
+    if (!Number.isInteger(route) || route < 0 || route > 0xffff) {
+      console.warn(`[Main] Ignoring invalid route ${route}`);
+      return null;
+    }
+    if (route !== 0 && screens.size >= MAX_SCREENS) {
+      console.warn(`[Main] Ignoring route ${route}: screen limit of ${MAX_SCREENS} reached`);
+      return null;
+    }
+    entry = {
+      route,
+      window: null,
+      screenId: null,
+      cachedConfig: null,
+      cachedSensor: null,
+      lastConfigAt: null,
+      restoredAt: null, // savedAt of the on-disk layout while the screen still shows it, else null
+      sensorUpdatedAt: new Map(), // tag -> ms timestamp of its last update, for staleness metrics
+      rendererFps: null, // Reported by the visualization window
+      rendererFpsAt: null,
+      // 'frameengine' renders rive_config layouts, 'framebuffer' paints raw blit frames
+      displayMode: 'frameengine',
+      demo: null // { config, generators, csv } while the tray demo mode drives this screen
+    };
+    screens.set(route, entry);
+    console.log(`[Main] Registered screen for route ${route}`);
+  }
+  return entry;
+}
+
+// Pick a screen by header route, then by the screenId of a known screen, else the default screen
+function resolveScreen(route, screenId) {
+  if (route) return getScreen(route);
+
+  if (screenId) {
+    for (const entry of screens.values()) {
+      if (entry.screenId === screenId) return entry;
+    }
+  }
+  return getScreen(0);
+}
+
+// Map insertion order tracks recency, so the entry is re-inserted before trimming
+function setScreenCache(cache, screenId, value) {
+  cache.delete(screenId);
+  cache.set(screenId, value);
+
+  const inUse = new Set(Array.from(screens.values(), entry => entry.screenId));
+  for (const screenCache of [cachedConfigs, cachedSensors]) {
+    for (const cachedScreenId of screenCache.keys()) {
+      if (screenCache.size <= MAX_CACHED_SCREEN_IDS) break;
+      if (!inUse.has(cachedScreenId)) screenCache.delete(cachedScreenId);
+    }
+  }
+  sensorTagTables.retain(tableScreenId => cachedConfigs.has(tableScreenId) || inUse.has(tableScreenId));
+}
+
+function getScreenByWebContents(webContents) {
+  return getOpenScreens().find(entry => entry.window.webContents === webContents) || null;
+}
+
+function isScreenOpen(entry) {
+  return !!(entry && entry.window && !entry.window.isDestroyed());
+}
+
+function getOpenScreens() {
+  return Array.from(screens.values()).filter(isScreenOpen);
+}
+
+// Route 0 keeps using the original displayId preference
+function getScreenDisplayId(prefs, route) {
+  if (route === 0) return prefs.displayId ?? null;
+  return prefs.screenDisplays?.[route] ?? null;
+}
+
 // Helper function to send cached data to a window
-function sendCachedData(window) {
-  if (!window || window.isDestroyed()) return;
+function sendCachedData(window, entry) {
+  if (!window || window.isDestroyed() || !entry) return;
   
   try {
-    if (cachedConfig) {
-      console.log('[Main] Sending cached config to window');
-      window.webContents.send('rive-config', cachedConfig);
+    if (entry.cachedConfig) {
+      console.log(`[Main] Sending cached config for route ${entry.route} to window`);
+      window.webContents.send('rive-config', entry.cachedConfig);
     }
-    if (cachedSensor) {
-      console.log('[Main] Sending cached sensor to window');
-      window.webContents.send('rive-sensor-data', cachedSensor);
+    if (entry.cachedSensor) {
+      console.log(`[Main] Sending cached sensor for route ${entry.route} to window`);
+      window.webContents.send('rive-sensor-data', entry.cachedSensor);
     }
+    window.webContents.send('layout-cache-status', entry.restoredAt ? { savedAt: entry.restoredAt } : null);
   } catch (err) {
     console.log('[Main] Failed to send cached data:', err);
   }
 }
 
-// Helper function to resize visualization window based on config
-function resizeVisualizationWindow(config) {
-  if (!visualizationWindow || visualizationWindow.isDestroyed()) return;
-  if (visualizationWindow.isFullScreen()) return; // Don't resize if fullscreen
+// Helper function to resize a screen's visualization window based on config
+function resizeVisualizationWindow(entry, config) {
+  if (!isScreenOpen(entry)) return;
+  if (entry.window.isFullScreen()) return; // Don't resize if fullscreen
   
   try {
     const canvasWidth = config?.frameConfig?.canvas?.width;
     const canvasHeight = config?.frameConfig?.canvas?.height;
     
     if (canvasWidth && canvasHeight) {
-      console.log(`[Main] Resizing visualization window to ${canvasWidth}x${canvasHeight}`);
-      visualizationWindow.setContentSize(canvasWidth, canvasHeight);
-      visualizationWindow.center();
+      console.log(`[Main] Resizing visualization window for route ${entry.route} to ${canvasWidth}x${canvasHeight}`);
+      entry.window.setContentSize(canvasWidth, canvasHeight);
+      entry.window.center();
     }
   } catch (err) {
     console.error('[Main] Error resizing visualization window:', err);
   }
 }
 
-// Forward WebSocket messages to renderer and cache them
-function forwardMessageToRenderer(doc) {
+// Forward WebSocket messages to the screen they are routed to and cache them
+function forwardMessageToRenderer(doc, meta = {}) {
   const type = doc?.type;
+
+  if (!meta.replay) {
+    sessionRecorder.record('message', doc, meta.route || 0);
+  }
+
+  const entry = resolveScreen(meta.route || 0, doc?.screenId);
+  if (!entry) return;
+
+  if (type === 'rive_config_patch') {
+    if (patchScreenConfig(entry, doc.patch, meta) && !meta.replay) {
+      saveScreenLayout(entry);
+    }
+    return;
+  }
   
   // Cache the messages
   if (type === 'rive_config') {
-    cachedConfig = doc;
-    console.log('[Main] Cached rive_config');
+    entry.cachedConfig = doc;
+    entry.screenId = doc.screenId ?? null;
+    entry.lastConfigAt = Date.now();
+    setScreenCache(cachedConfigs, doc.screenId, doc);
+    console.log(`[Main] Cached rive_config for route ${entry.route}`);
+
+    // Replayed sessions are not the host's current layout, so they don't replace the saved one
+    if (!meta.replay) {
+      saveScreenLayout(entry);
+    }
+
+    if (Array.isArray(doc.sensorTags)) {
+      sensorTagTables.setTable(doc.screenId, doc.sensorTags);
+    }
+
+    // A layout always takes over from raw framebuffer output
+    setDisplayMode(entry, 'frameengine');
+
+    // The default screen's resolution is advertised over mDNS
+    const canvas = doc.frameConfig?.canvas;
+    if (entry.route === 0 && wsServer && canvas?.width && canvas?.height) {
+      wsServer.setCanvasSize(canvas.width, canvas.height);
+    }
     
     // Auto-open visualization if preference is enabled
     const prefs = loadPreferences();
-    if (prefs.autoOpenVisualization && (!visualizationWindow || visualizationWindow.isDestroyed())) {
-      console.log('[Main] Auto-opening visualization window on stream detection');
-      const fullscreen = prefs.fullscreenMode ?? true;
-      const hideCursor = prefs.hideCursor ?? true;
-      const displayId = prefs.displayId ?? null;
-      const fpsPosition = prefs.fpsPosition ?? 'top-left';
-      const retryInterval = prefs.retryInterval ?? 1;
-      const maxRetries = prefs.maxRetries ?? 5;
-      const monitorBehavior = prefs.monitorBehavior ?? 'wait';
-      openVisualizationWindow({ fullscreen, hideCursor, displayId, fpsPosition, retryInterval, maxRetries, monitorBehavior });
-    } else if (visualizationWindow && !visualizationWindow.isDestroyed()) {
+    if (prefs.autoOpenVisualization && !isScreenOpen(entry)) {
+      console.log(`[Main] Auto-opening visualization window for route ${entry.route} on stream detection`);
+      openVisualizationFromPreferences(entry.route);
+    } else if (isScreenOpen(entry)) {
       // Resize existing window if not fullscreen
-      resizeVisualizationWindow(doc);
+      resizeVisualizationWindow(entry, doc);
     }
   } else if (type === 'rive_sensor') {
-    cachedSensor = doc;
+    entry.cachedSensor = doc;
+    setScreenCache(cachedSensors, doc.screenId, doc);
+
+    const now = Date.now();
+    for (const tag of Object.keys(doc.sensors || {})) {
+      entry.sensorUpdatedAt.set(tag, now);
+    }
+  } else if (type === 'rive_sensor_delta') {
+    // Deltas carry only the tags that changed; they merge into the last full rive_sensor
+    const previous = entry.cachedSensor;
+    const merged = previous
+      ? { ...previous, sensors: { ...previous.sensors, ...doc.sensors } }
+      : { ...doc, type: 'rive_sensor' };
+    entry.cachedSensor = merged;
+    setScreenCache(cachedSensors, merged.screenId, merged);
+
+    const now = Date.now();
+    for (const tag of Object.keys(doc.sensors || {})) {
+      entry.sensorUpdatedAt.set(tag, now);
+    }
   }
   
-  // Forward to visualization window if open
-  if (visualizationWindow && !visualizationWindow.isDestroyed()) {
+  // Forward to the screen's visualization window if open
+  if (isScreenOpen(entry)) {
     try {
       if (type === 'rive_config') {
-        console.log('[Main] Forwarding rive_config to visualization window');
-        visualizationWindow.webContents.send('rive-config', doc);
-      } else if (type === 'rive_sensor') {
-        visualizationWindow.webContents.send('rive-sensor-data', doc);
+        console.log(`[Main] Forwarding rive_config to visualization window for route ${entry.route}`);
+        entry.window.webContents.send('rive-config', doc);
+      } else if (type === 'rive_sensor' || type === 'rive_sensor_delta') {
+        // The coalescer merges deltas per tag, so the renderer sees an ordinary rive_sensor update
+        sensorCoalescer.push(entry.route, doc);
       }
     } catch (err) {
       console.error('[Main] Error forwarding message:', err);
@@ -302,17 +689,252 @@ function forwardMessageToRenderer(doc) {
   }
 }
 
+// Apply a rive_config_patch (RFC 6902 operations) to the screen's cached layout. The visualization
+// window gets only the patch so unchanged elements stay mounted; a rejected patch changes nothing.
+function patchScreenConfig(entry, patch, meta = {}) {
+  // Rejections go back to the WebSocket client that sent the patch, if any
+  const reject = (code, message) => {
+    console.warn(`[Main] rive_config_patch rejected for route ${entry.route}: ${message}`);
+    if (wsServer && meta.clientId !== undefined) {
+      wsServer.sendProtocolError(meta.clientId, code, message, { route: entry.route, document: 'rive_config_patch' });
+    }
+    return false;
+  };
+
+  try {
+    validateJsonPatch(patch);
+  } catch (err) {
+    if (!(err instanceof JsonPatchError)) throw err;
+    return reject('invalid_patch', err.message);
+  }
+
+  const previous = entry.cachedConfig;
+  if (!previous) {
+    return reject('no_config', 'no layout to patch');
+  }
+
+  let config;
+  try {
+    config = applyJsonPatch(previous, patch);
+  } catch (err) {
+    if (!(err instanceof JsonPatchError)) throw err;
+    return reject('patch_failed', err.message);
+  }
+
+  entry.cachedConfig = config;
+  entry.screenId = config.screenId ?? null;
+  entry.lastConfigAt = Date.now();
+  setScreenCache(cachedConfigs, config.screenId, config);
+  console.log(`[Main] Patched rive_config for route ${entry.route} (${patch.length} operations)`);
+
+  if (config.sensorTags !== previous.sensorTags && Array.isArray(config.sensorTags)) {
+    sensorTagTables.setTable(config.screenId, config.sensorTags);
+  }
+
+  // Untouched subtrees keep their identity, so this only fires when the canvas was patched
+  const canvas = config.frameConfig?.canvas;
+  if (canvas !== previous.frameConfig?.canvas) {
+    if (entry.route === 0 && wsServer && canvas?.width && canvas?.height) {
+      wsServer.setCanvasSize(canvas.width, canvas.height);
+    }
+    resizeVisualizationWindow(entry, config);
+  }
+
+  if (isScreenOpen(entry)) {
+    entry.window.webContents.send('rive-config-patch', { screenId: config.screenId ?? null, patch });
+  }
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('rive-config', config);
+  }
+  return true;
+}
+
+// Persist the screen's layout; a layout from the host also ends the restored-from-disk state
+function saveScreenLayout(entry) {
+  layoutCache.save(entry.route, entry.cachedConfig);
+
+  if (entry.restoredAt) {
+    entry.restoredAt = null;
+    if (isScreenOpen(entry)) {
+      entry.window.webContents.send('layout-cache-status', null);
+    }
+  }
+}
+
+// Load the layouts saved by the last run so screens have something to show before a host connects
+function restoreSavedLayouts() {
+  const prefs = loadPreferences();
+
+  for (const route of layoutCache.listRoutes()) {
+    const saved = layoutCache.load(route);
+    if (!saved) continue;
+
+    const entry = getScreen(route);
+    if (!entry || entry.cachedConfig) continue;
+
+    entry.cachedConfig = saved.config;
+    entry.screenId = saved.screenId;
+    entry.restoredAt = saved.savedAt;
+    setScreenCache(cachedConfigs, saved.screenId, saved.config);
+    if (Array.isArray(saved.config.sensorTags)) {
+      sensorTagTables.setTable(saved.screenId, saved.config.sensorTags);
+    }
+    console.log(`[Main] Restored saved layout for route ${route}`);
+
+    if (prefs.autoOpenVisualization && !isScreenOpen(entry)) {
+      openVisualizationFromPreferences(route);
+    }
+  }
+}
+
+// Switch a screen between FrameEngine2 layouts and raw framebuffer output
+function setDisplayMode(entry, mode) {
+  if (entry.displayMode === mode) return;
+
+  entry.displayMode = mode;
+  console.log(`[Main] Display mode for route ${entry.route} changed to ${mode}`);
+
+  if (isScreenOpen(entry)) {
+    entry.window.webContents.send('set-display-mode', mode);
+  }
+}
+
+// Expand a binary sensor frame into a rive_sensor document for the screen on its route
+function forwardSensorFrameToRenderer(buf, meta = {}) {
+  const entry = getScreen(meta.route || 0);
+  if (!entry) return;
+  let doc;
+  try {
+    doc = sensorTagTables.decode(buf, entry.screenId);
+  } catch (err) {
+    console.error('[Main] Binary sensor frame rejected:', err.message);
+    return;
+  }
+  forwardMessageToRenderer(doc, meta);
+}
+
+// Forward decoded RGB565 blit regions to the screen they are routed to
+function forwardBlitToRenderer(region, meta = {}) {
+  const entry = getScreen(meta.route || 0);
+  if (!entry) return;
+  setDisplayMode(entry, 'framebuffer');
+
+  if (!isScreenOpen(entry)) {
+    const prefs = loadPreferences();
+    if (prefs.autoOpenVisualization) {
+      console.log(`[Main] Auto-opening visualization window for route ${entry.route} on framebuffer stream`);
+      openVisualizationFromPreferences(entry.route);
+    }
+    return;
+  }
+
+  try {
+    entry.window.webContents.send('framebuffer-blit', region);
+  } catch (err) {
+    console.error('[Main] Error forwarding blit:', err);
+  }
+}
+
+// Pack a native BGRA bitmap into little-endian RGB565 (the framebuffer blit pixel format)
+function bgraToRgb565(bitmap, width, height) {
+  const out = Buffer.alloc(width * height * 2);
+  for (let i = 0, o = 0; i < width * height * 4; i += 4, o += 2) {
+    const b = bitmap[i];
+    const g = bitmap[i + 1];
+    const r = bitmap[i + 2];
+    out.writeUInt16LE(((r & 0xf8) << 8) | ((g & 0xfc) << 3) | (b >> 3), o);
+  }
+  return out;
+}
+
+// Capture a screen's visualization window as PNG or RGB565.
+// RGB565 defaults to the layout's canvas resolution, PNG to the captured window size.
+async function captureScreen(entry, { format = 'png', width, height } = {}) {
+  if (format !== 'png' && format !== 'rgb565') {
+    throw new CommandError('invalid_params', 'format must be "png" or "rgb565"');
+  }
+  if (!isScreenOpen(entry)) {
+    throw new CommandError('visualization_closed', `Visualization window for route ${entry.route} is not open`);
+  }
+
+  let targetWidth = Number(width) || 0;
+  let targetHeight = Number(height) || 0;
+  const canvas = entry.cachedConfig?.frameConfig?.canvas;
+  if (!targetWidth && !targetHeight && format === 'rgb565' && canvas?.width && canvas?.height) {
+    targetWidth = canvas.width;
+    targetHeight = canvas.height;
+  }
+  // Screenshots are held in memory whole, so they stay within the canvas sizes layouts may use
+  const sizeError = `width must be 1-${CANVAS_LIMITS.maxWidth} and height 1-${CANVAS_LIMITS.maxHeight}`;
+  const withinLimits = (w, h) => Number.isInteger(w) && Number.isInteger(h) &&
+    w >= 1 && w <= CANVAS_LIMITS.maxWidth && h >= 1 && h <= CANVAS_LIMITS.maxHeight;
+  // 0 leaves that dimension to the capture
+  if (!withinLimits(targetWidth || 1, targetHeight || 1)) {
+    throw new CommandError('invalid_params', sizeError);
+  }
+
+  let image = await entry.window.webContents.capturePage();
+  if (targetWidth || targetHeight) {
+    // A single dimension keeps the aspect ratio, so check the one it implies before resizing
+    const source = image.getSize();
+    const scaledWidth = targetWidth || Math.round(source.width * targetHeight / source.height);
+    const scaledHeight = targetHeight || Math.round(source.height * targetWidth / source.width);
+    if (!withinLimits(scaledWidth, scaledHeight)) {
+      throw new CommandError('invalid_params', sizeError);
+    }
+    image = image.resize({
+      ...(targetWidth && { width: targetWidth }),
+      ...(targetHeight && { height: targetHeight }),
+      quality: 'good'
+    });
+  }
+
+  const size = image.getSize();
+  const data = format === 'rgb565'
+    ? bgraToRgb565(image.toBitmap(), size.width, size.height)
+    : image.toPNG();
+
+  return { format, width: size.width, height: size.height, data };
+}
+
+// Helper function to open a screen's visualization window using saved preferences
+function openVisualizationFromPreferences(route = 0) {
+  const prefs = loadPreferences();
+  const fullscreen = prefs.fullscreenMode ?? true;
+  const hideCursor = prefs.hideCursor ?? true;
+  const displayId = getScreenDisplayId(prefs, route);
+  const fpsPosition = prefs.fpsPosition ?? 'top-left';
+  const retryInterval = prefs.retryInterval ?? 1;
+  const maxRetries = prefs.maxRetries ?? 5;
+  const monitorBehavior = prefs.monitorBehavior ?? 'wait';
+  openVisualizationWindow({ route, fullscreen, hideCursor, displayId, fpsPosition, retryInterval, maxRetries, monitorBehavior });
+}
+
+function closeVisualizationWindows() {
+  for (const entry of getOpenScreens()) {
+    entry.window.close();
+  }
+}
+
 // Helper function to open visualization window
 async function openVisualizationWindow(options) {
-  if (visualizationWindow && !visualizationWindow.isDestroyed()) {
-    visualizationWindow.focus();
+  const route = options?.route ?? 0;
+  const entry = getScreen(route);
+  if (!entry) return;
+
+  if (isScreenOpen(entry)) {
+    entry.window.focus();
     return;
   }
 
+  // Waiting for a display can take several seconds; don't open the same screen twice
+  if (entry.opening) return;
+  entry.opening = true;
+
   const { 
     fullscreen = true, 
     hideCursor = true, 
-    displayId = null, 
+    displayId = getScreenDisplayId(loadPreferences(), route), 
     fpsPosition = 'top-left',
     retryInterval = 1,
     maxRetries = 5,
@@ -323,9 +945,9 @@ async function openVisualizationWindow(options) {
   let windowWidth = 1280;
   let windowHeight = 720;
   
-  if (!fullscreen && cachedConfig?.frameConfig?.canvas) {
-    windowWidth = cachedConfig.frameConfig.canvas.width || 1280;
-    windowHeight = cachedConfig.frameConfig.canvas.height || 720;
+  if (!fullscreen && entry.cachedConfig?.frameConfig?.canvas) {
+    windowWidth = entry.cachedConfig.frameConfig.canvas.width || 1280;
+    windowHeight = entry.cachedConfig.frameConfig.canvas.height || 720;
     console.log(`[Main] Using canvas dimensions: ${windowWidth}x${windowHeight}`);
   }
 
@@ -351,6 +973,8 @@ async function openVisualizationWindow(options) {
     targetDisplay = screen.getPrimaryDisplay();
   }
   
+  let visualizationWindow;
+
   // Use default dimensions if screen API not available yet
   if (!targetDisplay) {
     console.log('[Main] Display not found, using default dimensions');
@@ -370,7 +994,7 @@ async function openVisualizationWindow(options) {
       }
     });
   } else {
-    console.log(`[Main] Opening visualization on display ${targetDisplay.id} at bounds:`, targetDisplay.bounds);
+    console.log(`[Main] Opening visualization for route ${route} on display ${targetDisplay.id} at bounds:`, targetDisplay.bounds);
 
     // Calculate window position for the selected display
     const displayBounds = targetDisplay.bounds;
@@ -408,6 +1032,9 @@ async function openVisualizationWindow(options) {
     }
   }
 
+  entry.window = visualizationWindow;
+  entry.opening = false;
+
   // Load the built React app
   const visualizationPath = path.join(__dirname, 'dist-react', 'visualization.html');
   
@@ -419,13 +1046,13 @@ async function openVisualizationWindow(options) {
   }
 
   visualizationWindow.webContents.on('did-finish-load', () => {
-    console.log('[Main] Visualization window loaded');
+    console.log(`[Main] Visualization window for route ${route} loaded`);
     
     // Small delay to ensure renderer is ready, then send cached data and preferences
     setTimeout(() => {
       if (visualizationWindow && !visualizationWindow.isDestroyed()) {
-        // Send cached data first
-        sendCachedData(visualizationWindow);
+        // Send this screen's cached data first
+        sendCachedData(visualizationWindow, entry);
         
         // Set cursor visibility
         if (fullscreen && hideCursor) {
@@ -435,24 +1062,160 @@ async function openVisualizationWindow(options) {
         // Send FPS position preference
         visualizationWindow.webContents.send('set-fps-position', fpsPosition);
 
+        // Apply device brightness set by the host
+        visualizationWindow.webContents.send('set-brightness', deviceBrightness / 255);
+
+        // Restore framebuffer mode if the host is streaming blit frames
+        visualizationWindow.webContents.send('set-display-mode', entry.displayMode);
+
+        // Show a pairing code that is still waiting to be entered on a host
+        visualizationWindow.webContents.send('pairing-code', pairingManager.getActiveCode());
+
+        // Resume demo mode started from the tray
+        if (entry.demo) {
+          visualizationWindow.webContents.send('set-demo-mode', entry.demo);
+        }
+
         // Notify main window
         if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('visualization-opened');
+          mainWindow.webContents.send('visualization-opened', { route });
         }
       }
     }, 100);
   });
 
   visualizationWindow.on('closed', () => {
-    visualizationWindow = null;
+    entry.window = null;
+    entry.rendererFps = null;
+    sensorCoalescer.discard(route);
+
+    // Demo mode ends with its window
+    if (entry.demo) {
+      entry.demo = null;
+      updateTrayMenu();
+    }
     
-    // Notify main window
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send('visualization-closed');
+    // Notify main window once the last screen has closed
+    if (mainWindow && !mainWindow.isDestroyed() && getOpenScreens().length === 0) {
+      mainWindow.webContents.send('visualization-closed', { route });
     }
   });
 }
 
+// Commands the host can run through COMMAND (0x0002) messages.
+// Screen-specific commands target params.route, else the route the command arrived on.
+const commandRoute = (params, context) => params.route ?? context.route ?? 0;
+
+function getCommandScreen(params, context) {
+  const route = commandRoute(params, context);
+  const entry = getScreen(route);
+  if (!entry) {
+    throw new CommandError('unknown_route', `Route ${route} is not a valid screen or the screen limit of ${MAX_SCREENS} is reached`);
+  }
+  return entry;
+}
+
+const commandDispatcher = new CommandDispatcher()
+  .register('set_brightness', (params) => {
+    const value = Number(params.value);
+    if (!Number.isFinite(value) || value < 0 || value > 255) {
+      throw new CommandError('invalid_params', 'set_brightness requires a value between 0 and 255');
+    }
+
+    deviceBrightness = Math.round(value);
+    for (const entry of getOpenScreens()) {
+      entry.window.webContents.send('set-brightness', deviceBrightness / 255);
+    }
+    return { brightness: deviceBrightness };
+  })
+  .register('reload_layout', (params, context) => {
+    const entry = getCommandScreen(params, context);
+    if (!entry.cachedConfig) {
+      throw new CommandError('no_layout', `No layout has been received for route ${entry.route}`);
+    }
+    if (!isScreenOpen(entry)) {
+      throw new CommandError('visualization_closed', `Visualization window for route ${entry.route} is not open`);
+    }
+
+    sendCachedData(entry.window, entry);
+    return { route: entry.route, screenId: entry.cachedConfig.screenId };
+  })
+  .register('open_visualization', (params, context) => {
+    const { route } = getCommandScreen(params, context);
+    openVisualizationFromPreferences(route);
+    return { route, open: true };
+  })
+  .register('close_visualization', (params, context) => {
+    const entry = getCommandScreen(params, context);
+    if (isScreenOpen(entry)) {
+      entry.window.close();
+    }
+    return { route: entry.route, open: false };
+  })
+  .register('switch_screen', (params, context) => {
+    const config = cachedConfigs.get(params.screenId);
+    if (!config) {
+      throw new CommandError('unknown_screen', `No layout cached for screen ${params.screenId}`);
+    }
+
+    const entry = getCommandScreen(params, context);
+    entry.cachedConfig = config;
+    entry.cachedSensor = cachedSensors.get(params.screenId) || null;
+    entry.screenId = params.screenId;
+    saveScreenLayout(entry);
+    setDisplayMode(entry, 'frameengine');
+    sendCachedData(entry.window, entry);
+    sendCachedData(mainWindow, entry);
+    return { route: entry.route, screenId: params.screenId };
+  })
+  .register('screenshot', async (params, context) => {
+    const entry = getCommandScreen(params, context);
+    const image = await captureScreen(entry, params);
+
+    // The image goes out as its own binary frame ahead of the acknowledgement
+    const frameType = wsServer ? wsServer.sendScreenshot(context.clientId, entry.route, image) : null;
+    if (!frameType) {
+      throw new CommandError('send_failed', 'Screenshot could not be sent to the requesting client');
+    }
+
+    console.log(`[Main] Sent ${image.format} screenshot of route ${entry.route} (${image.width}x${image.height}, ${image.data.length} bytes)`);
+    return {
+      route: entry.route,
+      format: image.format,
+      width: image.width,
+      height: image.height,
+      bytes: image.data.length,
+      frameType
+    };
+  })
+  .register('clear_cache', () => {
+    for (const entry of screens.values()) {
+      entry.cachedConfig = null;
+      entry.cachedSensor = null;
+      entry.restoredAt = null;
+      entry.sensorUpdatedAt.clear();
+    }
+    cachedConfigs.clear();
+    cachedSensors.clear();
+    sensorTagTables.clear();
+    layoutCache.clear();
+    console.log('[Main] Message cache cleared');
+    return { cleared: true };
+  })
+  .register('restart_app', () => {
+    // Give the acknowledgement time to reach the host before exiting
+    setTimeout(() => {
+      console.log('[Main] Restarting on host request');
+      app.isQuitting = true;
+      if (wsServer && wsServer.isRunning()) {
+        wsServer.stop();
+      }
+      app.relaunch();
+      app.exit(0);
+    }, 500);
+    return { restarting: true };
+  });
+
 // IPC Handlers
 ipcMain.handle('get-app-version', () => {
   return app.getVersion();
@@ -493,9 +1256,9 @@ ipcMain.handle('get-start-minimized-preference', () => {
   return prefs.startMinimized ?? false;
 });
 
-ipcMain.handle('get-display-preference', () => {
+ipcMain.handle('get-display-preference', (_event, route = 0) => {
   const prefs = loadPreferences();
-  const savedDisplayId = prefs.displayId ?? null;
+  const savedDisplayId = getScreenDisplayId(prefs, route);
   
   // Only validate if app is ready and screen API is available
   if (savedDisplayId !== null && app.isReady()) {
@@ -576,11 +1339,15 @@ ipcMain.on('save-start-minimized-preference', (_event, value) => {
   savePreferences(prefs);
 });
 
-ipcMain.on('save-display-preference', (_event, value) => {
+ipcMain.on('save-display-preference', (_event, value, route = 0) => {
   const prefs = loadPreferences();
-  prefs.displayId = value;
+  if (route === 0) {
+    prefs.displayId = value;
+  } else {
+    prefs.screenDisplays = { ...prefs.screenDisplays, [route]: value };
+  }
   savePreferences(prefs);
-  console.log('[Main] Saved display preference:', value);
+  console.log(`[Main] Saved display preference for route ${route}:`, value);
 });
 
 ipcMain.on('save-retry-interval-preference', (_event, value) => {
@@ -637,6 +1404,446 @@ ipcMain.on('open-external', (_event, url) => {
   // We'll add shell.openExternal later
 });
 
+// Pairing handlers
+ipcMain.handle('get-require-pairing-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.requirePairing ?? false;
+});
+
+ipcMain.on('save-require-pairing-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.requirePairing = value;
+  savePreferences(prefs);
+  console.log('[Main] Saved require pairing preference:', value);
+});
+
+ipcMain.handle('get-paired-hosts', () => {
+  return pairingManager.listHosts();
+});
+
+ipcMain.handle('show-pairing-code', () => {
+  // The code is read off the visualization window, so make sure one is open
+  if (getOpenScreens().length === 0) {
+    openVisualizationFromPreferences();
+  }
+  return pairingManager.createCode();
+});
+
+ipcMain.handle('revoke-paired-host', (_event, hostId) => {
+  return pairingManager.revoke(hostId);
+});
+
+ipcMain.handle('get-mdns-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.mdnsEnabled ?? true;
+});
+
+ipcMain.on('save-mdns-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.mdnsEnabled = value;
+  savePreferences(prefs);
+  console.log('[Main] Saved mDNS preference:', value);
+});
+
+ipcMain.handle('get-http-api-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.httpApiEnabled ?? false;
+});
+
+ipcMain.on('save-http-api-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.httpApiEnabled = value;
+  savePreferences(prefs);
+  console.log('[Main] Saved HTTP API preference:', value);
+  if (value) {
+    startHttpApi();
+  } else {
+    stopHttpApi();
+  }
+});
+
+ipcMain.handle('get-http-api-port-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.httpApiPort ?? 8082;
+});
+
+ipcMain.on('save-http-api-port-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.httpApiPort = value;
+  savePreferences(prefs);
+  if (httpApi) startHttpApi();
+});
+
+ipcMain.handle('get-sensor-max-rate-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.sensorMaxRate ?? DEFAULT_MAX_RATE;
+});
+
+ipcMain.on('save-sensor-max-rate-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.sensorMaxRate = value;
+  savePreferences(prefs);
+  sensorCoalescer.setMaxRate(value);
+});
+
+// The visualization renderer acks each sensor batch once it has been painted
+ipcMain.on('rive-sensor-ack', (event) => {
+  const entry = getScreenByWebContents(event.sender);
+  if (entry) {
+    sensorCoalescer.ack(entry.route);
+  }
+});
+
+// Sent when a visualization window leaves demo mode and needs the host's layout again
+ipcMain.on('request-cached-data', (event) => {
+  const entry = getScreenByWebContents(event.sender);
+  if (entry) {
+    sendCachedData(entry.window, entry);
+  }
+});
+
+// Touch, click, Rive and render-error events from a visualization window go out to every connected host
+ipcMain.on('device-event', (event, deviceEvent) => {
+  if (!deviceEvent || !DEVICE_EVENT_TYPES.includes(deviceEvent.type)) {
+    console.warn('[Main] Ignoring unknown device event:', deviceEvent?.type);
+    return;
+  }
+
+  const entry = getScreenByWebContents(event.sender);
+  const doc = {
+    type: 'device-event',
+    route: entry ? entry.route : 0,
+    screenId: deviceEvent.screenId ?? entry?.screenId ?? null,
+    event: deviceEvent,
+    timestamp: Date.now()
+  };
+
+  deviceEventCounts.set(deviceEvent.type, (deviceEventCounts.get(deviceEvent.type) || 0) + 1);
+  if (wsServer && wsServer.isRunning()) {
+    wsServer.broadcast(doc);
+  }
+});
+
+// Visualization windows report their frame rate every few seconds for /metrics
+ipcMain.on('renderer-fps', (event, fps) => {
+  const entry = getScreenByWebContents(event.sender);
+  if (entry && Number.isFinite(fps)) {
+    entry.rendererFps = fps;
+    entry.rendererFpsAt = Date.now();
+  }
+});
+
+// TLS handlers
+ipcMain.handle('get-ws-tls-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.wsTls ?? false;
+});
+
+ipcMain.handle('get-tls-cert-path-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.tlsCertPath ?? '';
+});
+
+ipcMain.handle('get-tls-key-path-preference', () => {
+  const prefs = loadPreferences();
+  return prefs.tlsKeyPath ?? '';
+});
+
+ipcMain.on('save-ws-tls-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.wsTls = value;
+  savePreferences(prefs);
+  console.log('[Main] Saved WebSocket TLS preference:', value);
+  // The HTTP API switches between loopback HTTP and network HTTPS with this preference
+  if (httpApi) startHttpApi();
+});
+
+ipcMain.on('save-tls-cert-path-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.tlsCertPath = value;
+  savePreferences(prefs);
+  console.log('[Main] Saved TLS certificate path preference:', value);
+});
+
+ipcMain.on('save-tls-key-path-preference', (_event, value) => {
+  const prefs = loadPreferences();
+  prefs.tlsKeyPath = value;
+  savePreferences(prefs);
+  console.log('[Main] Saved TLS key path preference:', value);
+});
+
+ipcMain.handle('select-tls-file', async (event, title) => {
+  const result = await dialog.showOpenDialog(BrowserWindow.fromWebContents(event.sender), {
+    title,
+    properties: ['openFile'],
+    filters: [
+      { name: 'PEM files', extensions: ['pem', 'crt', 'cer', 'key'] },
+      { name: 'All files', extensions: ['*'] }
+    ]
+  });
+  return result.canceled ? null : result.filePaths[0];
+});
+
+// Certificate details for the settings window; generates the self-signed certificate if needed
+ipcMain.handle('get-tls-certificate-info', () => {
+  try {
+    const { fingerprint, subject, validTo, selfSigned } = loadTlsCertificate(loadPreferences());
+    return { fingerprint, subject, validTo, selfSigned };
+  } catch (err) {
+    console.error('[Main] Failed to load TLS certificate:', err);
+    return { error: err.message };
+  }
+});
+
+function loadTlsCertificate(prefs) {
+  return loadOrCreateCertificate({
+    certPath: prefs.tlsCertPath,
+    keyPath: prefs.tlsKeyPath,
+    storeDir: tlsStorePath
+  });
+}
+
+// Creates the WebSocket server with message forwarding and pairing wired up
+function createWebSocketServer(wsPort) {
+  const prefs = loadPreferences();
+  const tls = prefs.wsTls ? loadTlsCertificate(prefs) : null;
+  const advertiser = (prefs.mdnsEnabled ?? true)
+    ? new MdnsAdvertiser(`JunctionRelay Virtual Device (${os.hostname()})`)
+    : null;
+
+  const server = new WebSocketServerManager(wsPort, {
+    tls,
+    advertiser,
+    appVersion: app.getVersion(),
+    commands: commandDispatcher.getCommandNames(),
+    coalescer: sensorCoalescer
+  });
+
+  // Advertise the layout already on screen when the server restarts
+  const canvas = getScreen(0).cachedConfig?.frameConfig?.canvas;
+  if (canvas?.width && canvas?.height) {
+    server.setCanvasSize(canvas.width, canvas.height);
+  }
+
+  server.onMessage = forwardMessageToRenderer;
+  server.onBlit = forwardBlitToRenderer;
+  server.onSensorFrame = forwardSensorFrameToRenderer;
+  server.onCommand = (doc, context) => {
+    sessionRecorder.record('command', doc, context.route || 0);
+    return commandDispatcher.dispatch(doc, context);
+  };
+  server.pairing = pairingManager;
+  server.onHostInfo = (info) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('host-protocol', { ...info, deviceProtocolVersion: PROTOCOL_VERSION });
+    }
+  };
+  return server;
+}
+
+// Screen route from a ?route= query parameter, default 0
+function parseApiRoute(query) {
+  if (query.route === undefined) return 0;
+  const route = Number(query.route);
+  if (!Number.isInteger(route) || route < 0 || route > 0xffff) {
+    throw new HttpError(400, 'invalid_route', 'route must be an integer between 0 and 65535');
+  }
+  return route;
+}
+
+function getApiScreen(query) {
+  const route = parseApiRoute(query);
+  const entry = getScreen(route);
+  if (!entry) {
+    throw new HttpError(409, 'screen_limit', `No screen for route ${route}: the screen limit of ${MAX_SCREENS} is reached`);
+  }
+  return entry;
+}
+
+// Creates the HTTP status/control API; payloads posted to it take the same path as WebSocket messages
+function createHttpApi(port, tls) {
+  const api = new HttpApiServer(port, { tls });
+
+  // Paired hosts use the token they received when pairing
+  api.authorize = (token) => !pairingManager.isRequired() || !!pairingManager.verify(token);
+
+  api.route('GET', '/status', ({ query }) => {
+    const entry = getApiScreen(query);
+    return {
+      heartbeat: wsServer ? wsServer.getHeartbeat() : null,
+      websocket: {
+        running: !!wsServer && wsServer.isRunning(),
+        port: wsServer ? wsServer.port : null,
+        scheme: wsServer ? wsServer.getScheme() : null
+      },
+      stats: wsServer ? wsServer.getStats() : null,
+      clients: wsServer ? wsServer.getClients() : [],
+      route: entry.route,
+      screenId: entry.screenId,
+      displayMode: entry.displayMode,
+      screens: Array.from(screens.values(), (screen) => ({
+        route: screen.route,
+        screenId: screen.screenId,
+        open: isScreenOpen(screen),
+        displayMode: screen.displayMode
+      }))
+    };
+  });
+
+  api.route('GET', '/config', ({ query }) => {
+    const entry = getApiScreen(query);
+    if (!entry.cachedConfig) {
+      throw new HttpError(404, 'no_config', `No layout received for route ${entry.route}`);
+    }
+    return entry.cachedConfig;
+  });
+
+  api.route('GET', '/screenshot', async ({ query }) => {
+    const entry = getApiScreen(query);
+    try {
+      const image = await captureScreen(entry, { format: 'png', width: query.width, height: query.height });
+      return new RawResponse('image/png', image.data);
+    } catch (err) {
+      if (err instanceof CommandError) {
+        throw new HttpError(err.code === 'visualization_closed' ? 409 : 400, err.code, err.message);
+      }
+      throw err;
+    }
+  });
+
+  api.route('POST', '/config', ({ query, body }) => {
+    if (!body || typeof body !== 'object' || (body.type && body.type !== 'rive_config')) {
+      throw new HttpError(400, 'invalid_config', 'Body must be a rive_config document');
+    }
+    const { route } = getApiScreen(query);
+    const doc = { ...body, type: 'rive_config' };
+    forwardMessageToRenderer(doc, { route, source: 'http' });
+    return { ok: true, route, screenId: doc.screenId ?? null };
+  });
+
+  api.route('POST', '/config/patch', ({ query, body }) => {
+    const patch = Array.isArray(body) ? body : body?.patch;
+    if (!Array.isArray(patch)) {
+      throw new HttpError(400, 'invalid_patch', 'Body must be a JSON Patch array or a rive_config_patch document');
+    }
+    try {
+      validateJsonPatch(patch);
+    } catch (err) {
+      if (err instanceof JsonPatchError) throw new HttpError(400, 'invalid_patch', err.message);
+      throw err;
+    }
+    const entry = getApiScreen(query);
+    const { route } = entry;
+    if (!entry.cachedConfig) {
+      throw new HttpError(404, 'no_config', `No layout received for route ${entry.route}`);
+    }
+    try {
+      applyJsonPatch(entry.cachedConfig, patch);
+    } catch (err) {
+      if (err instanceof JsonPatchError) throw new HttpError(422, 'patch_failed', err.message);
+      throw err;
+    }
+    forwardMessageToRenderer({ type: 'rive_config_patch', patch }, { route, source: 'http' });
+    return { ok: true, route, operations: patch.length };
+  });
+
+  api.route('POST', '/sensors', ({ query, body }) => {
+    const validSensors = body?.sensors && typeof body.sensors === 'object' && !Array.isArray(body.sensors);
+    if (!validSensors || (body.type && body.type !== 'rive_sensor' && body.type !== 'rive_sensor_delta')) {
+      throw new HttpError(400, 'invalid_sensors', 'Body must be a rive_sensor or rive_sensor_delta document with a sensors map');
+    }
+    const { route } = getApiScreen(query);
+    const doc = { ...body, type: body.type || 'rive_sensor' };
+    forwardMessageToRenderer(doc, { route, source: 'http' });
+    return { ok: true, route, sensors: Object.keys(doc.sensors).length };
+  });
+
+  api.route('GET', '/metrics', () => new RawResponse(METRICS_CONTENT_TYPE, Buffer.from(collectMetrics())));
+
+  return api;
+}
+
+// Prometheus metrics for fleets of devices; counters restart from zero when the WebSocket server restarts
+function collectMetrics() {
+  const now = Date.now();
+  const stats = wsServer ? wsServer.getStats() : null;
+  const coalescing = sensorCoalescer.getStats();
+  const metrics = new MetricsWriter();
+  const screenLabels = (entry) => ({ route: entry.route, screen_id: entry.screenId ?? '' });
+
+  metrics.gauge('websocket_up', 'Whether the WebSocket server is running', wsServer && wsServer.isRunning() ? 1 : 0);
+  if (stats) {
+    metrics
+      .gauge('websocket_clients', 'Connected WebSocket clients', stats.clients)
+      .counter('websocket_messages_received_total', 'WebSocket messages received', stats.messagesReceived)
+      .counter('websocket_messages_sent_total', 'WebSocket messages sent', stats.messagesSent)
+      .counter('websocket_frames_decoded_total', 'Protocol frames decoded', stats.framing.framesDecoded)
+      .counter('websocket_framing_errors_total', 'Protocol headers rejected while resyncing', stats.framing.framingErrors)
+      .counter('decompression_failures_total', 'Payloads that failed to decompress', stats.decompressionFailures)
+      .counter('json_parse_failures_total', 'DATA and COMMAND payloads that were not valid JSON', stats.parseFailures)
+      .counter('codec_messages_total', 'Payloads decompressed per codec',
+        Object.entries(stats.codecs).map(([codec, c]) => ({ labels: { codec }, value: c.messages })))
+      .counter('codec_failures_total', 'Decompression failures per codec',
+        Object.entries(stats.codecs).map(([codec, c]) => ({ labels: { codec }, value: c.failures })));
+  }
+
+  metrics
+    .counter('sensor_updates_received_total', 'rive_sensor updates received', coalescing.received)
+    .counter('sensor_batches_sent_total', 'Merged sensor batches sent to visualization windows', coalescing.batches)
+    .counter('sensor_updates_merged_total', 'Sensor updates merged into a pending batch', coalescing.merged)
+    .counter('sensor_values_dropped_total', 'Sensor values superseded or discarded before rendering', coalescing.dropped)
+    .counter('device_events_total', 'Device events sent from visualization windows to hosts',
+      Array.from(deviceEventCounts, ([type, value]) => ({ labels: { type }, value })));
+
+  const entries = Array.from(screens.values());
+  metrics
+    .gauge('screen_open', 'Whether the screen\'s visualization window is open',
+      entries.map(entry => ({ labels: screenLabels(entry), value: isScreenOpen(entry) ? 1 : 0 })))
+    .gauge('renderer_fps', 'Frame rate reported by the visualization window',
+      entries.filter(entry => isScreenOpen(entry) && entry.rendererFps !== null)
+        .map(entry => ({ labels: screenLabels(entry), value: entry.rendererFps })))
+    .gauge('renderer_fps_report_age_seconds', 'Seconds since the visualization window last reported its frame rate',
+      entries.filter(entry => isScreenOpen(entry) && entry.rendererFpsAt !== null)
+        .map(entry => ({ labels: screenLabels(entry), value: (now - entry.rendererFpsAt) / 1000 })))
+    .gauge('last_config_timestamp_seconds', 'Unix time of the last rive_config for the screen',
+      entries.filter(entry => entry.lastConfigAt !== null)
+        .map(entry => ({ labels: screenLabels(entry), value: entry.lastConfigAt / 1000 })))
+    .gauge('sensor_staleness_seconds', 'Seconds since each sensor tag was last updated',
+      entries.flatMap(entry => Array.from(entry.sensorUpdatedAt, ([tag, updatedAt]) => ({
+        labels: { ...screenLabels(entry), tag },
+        value: (now - updatedAt) / 1000
+      }))));
+
+  return metrics.toString();
+}
+
+// Served over HTTPS with the WebSocket certificate when wss:// is enabled, else on loopback only
+function startHttpApi() {
+  const prefs = loadPreferences();
+  if (httpApi) httpApi.stop();
+  httpApi = null;
+
+  let tls = null;
+  if (prefs.wsTls) {
+    try {
+      tls = loadTlsCertificate(prefs);
+    } catch (err) {
+      // Never fall back to plain HTTP on the network when TLS was asked for
+      console.error('[Main] HTTP API not started, TLS certificate failed to load:', err.message);
+      return;
+    }
+  }
+
+  httpApi = createHttpApi(prefs.httpApiPort ?? 8082, tls);
+  httpApi.start();
+}
+
+function stopHttpApi() {
+  if (!httpApi) return;
+  httpApi.stop();
+  httpApi = null;
+}
+
 // WebSocket handlers
 ipcMain.on('start-ws', (event) => {
   if (wsServer && wsServer.isRunning()) {
@@ -648,10 +1855,7 @@ ipcMain.on('start-ws', (event) => {
     const prefs = loadPreferences();
     const wsPort = prefs.wsPort ?? 8081;
     
-    wsServer = new WebSocketServerManager(wsPort);
-    
-    // Setup message forwarding
-    wsServer.onMessage = forwardMessageToRenderer;
+    wsServer = createWebSocketServer(wsPort);
     
     const started = wsServer.start();
     
@@ -660,7 +1864,8 @@ ipcMain.on('start-ws', (event) => {
       event.reply('ws-status', { 
         ok: true, 
         message: `WebSocket server started on port ${wsPort}`,
-        ips 
+        ips,
+        scheme: wsServer.getScheme()
       });
     } else {
       event.reply('ws-status', { ok: false, message: 'Failed to start WebSocket server' });
@@ -710,9 +1915,7 @@ ipcMain.on('open-visualization', (_event, options) => {
 });
 
 ipcMain.on('close-visualization', () => {
-  if (visualizationWindow && !visualizationWindow.isDestroyed()) {
-    visualizationWindow.close();
-  }
+  closeVisualizationWindows();
 });
 
 // Handle Escape key to close visualization window
@@ -751,6 +1954,14 @@ function notifyDisplaysChanged() {
 
 app.whenReady().then(() => {
   console.log('App ready');
+
+  protocol.handle(LAYOUT_CACHE_SCHEME, (request) => {
+    const filePath = layoutCache.resolveAssetUrl(request.url);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return new Response('Not found', { status: 404 });
+    }
+    return net.fetch(pathToFileURL(filePath).toString());
+  });
   
   // Create tray icon first
   createTray();
@@ -760,14 +1971,31 @@ app.whenReady().then(() => {
   // Setup display listeners after app is ready
   setupDisplayListeners();
   
-  // Auto-start WebSocket if preference is enabled
   const prefs = loadPreferences();
+  sensorCoalescer.setMaxRate(prefs.sensorMaxRate ?? DEFAULT_MAX_RATE);
+
+  // Screens show their last layout straight away; a host connecting later replaces it
+  restoreSavedLayouts();
+
+  if (prefs.httpApiEnabled) {
+    startHttpApi();
+  }
+
+  // Auto-start WebSocket if preference is enabled
   if (prefs.autoStartWs) {
     console.log('[Main] Auto-starting WebSocket server...');
     const wsPort = prefs.wsPort ?? 8081;
     setTimeout(() => {
-      wsServer = new WebSocketServerManager(wsPort);
-      wsServer.onMessage = forwardMessageToRenderer;
+      try {
+        wsServer = createWebSocketServer(wsPort);
+      } catch (err) {
+        console.error('WebSocket start error:', err);
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('ws-status', { ok: false, message: `Error: ${err.message}` });
+        }
+        return;
+      }
+
       const started = wsServer.start();
       
       if (started) {
@@ -776,7 +2004,8 @@ app.whenReady().then(() => {
           mainWindow.webContents.send('ws-status', { 
             ok: true, 
             message: `WebSocket server started on port ${wsPort}`,
-            ips 
+            ips,
+            scheme: wsServer.getScheme()
           });
         }
       }
@@ -796,4 +2025,8 @@ app.on('window-all-closed', () => {
 
 app.on('before-quit', () => {
   app.isQuitting = true;
+  sessionRecorder.stop();
+  sessionPlayer.stop();
+  stopHttpApi();
+  pairingManager.flushLastSeen();
 });
\ No newline at end of file
@@ -0,0 +1,74 @@
+const { Bonjour } = require('bonjour-service');
+
+// Advertised as _junctionrelay._tcp so hosts can discover virtual devices alongside ESP32 devices
+const SERVICE_TYPE = 'junctionrelay';
+
+class MdnsAdvertiser {
+  constructor(name) {
+    this.name = name;
+    this.bonjour = null;
+    this.service = null;
+    this.port = null;
+    this.txt = {};
+  }
+
+  start(port, txt) {
+    if (this.bonjour) {
+      this.stop();
+    }
+
+    this.port = port;
+    this.txt = txt;
+    this.bonjour = new Bonjour(undefined, (err) => {
+      console.error('[mDNS] Error:', err);
+    });
+    this.publish();
+  }
+
+  publish() {
+    try {
+      this.service = this.bonjour.publish({
+        name: this.name,
+        type: SERVICE_TYPE,
+        port: this.port,
+        txt: this.txt
+      });
+
+      this.service.on('up', () => {
+        console.log(`[mDNS] Advertising "${this.name}" as _${SERVICE_TYPE}._tcp on port ${this.port}`);
+      });
+
+      this.service.on('error', (err) => {
+        console.error('[mDNS] Service error:', err.message);
+      });
+    } catch (err) {
+      console.error('[mDNS] Failed to publish service:', err);
+      this.service = null;
+    }
+  }
+
+  // Re-announces the service when a TXT value changes (e.g. a new canvas resolution)
+  update(txt) {
+    const changed = Object.keys({ ...this.txt, ...txt }).some(key => this.txt[key] !== txt[key]);
+    this.txt = txt;
+    if (!changed || !this.service) return;
+
+    this.service.stop(() => {
+      if (this.bonjour) {
+        this.publish();
+      }
+    });
+  }
+
+  stop() {
+    if (!this.bonjour) return;
+
+    const bonjour = this.bonjour;
+    this.bonjour = null;
+    this.service = null;
+    bonjour.unpublishAll(() => bonjour.destroy());
+    console.log('[mDNS] Advertisement stopped');
+  }
+}
+
+module.exports = { MdnsAdvertiser, SERVICE_TYPE };
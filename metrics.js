@@ -0,0 +1,54 @@
+// Builds Prometheus text exposition (format 0.0.4) for the HTTP /metrics route
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const METRIC_PREFIX = 'junctionrelay_';
+
+function escapeLabelValue(value) {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels) {
+  const entries = Object.entries(labels || {}).filter(([, value]) => value !== undefined && value !== null);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value) {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+class MetricsWriter {
+  constructor(prefix = METRIC_PREFIX) {
+    this.prefix = prefix;
+    this.lines = [];
+  }
+
+  // samples is a single number or an array of { labels, value }; families without samples are skipped
+  add(type, name, help, samples) {
+    const list = typeof samples === 'number' ? [{ value: samples }] : samples.filter(s => typeof s.value === 'number');
+    if (list.length === 0) return this;
+
+    const fullName = this.prefix + name;
+    this.lines.push(`# HELP ${fullName} ${help}`);
+    this.lines.push(`# TYPE ${fullName} ${type}`);
+    for (const sample of list) {
+      this.lines.push(`${fullName}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+    return this;
+  }
+
+  counter(name, help, samples) {
+    return this.add('counter', name, help, samples);
+  }
+
+  gauge(name, help, samples) {
+    return this.add('gauge', name, help, samples);
+  }
+
+  toString() {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+module.exports = { MetricsWriter, CONTENT_TYPE };
@@ -0,0 +1,202 @@
+const crypto = require('crypto');
+
+// One-time codes are short enough to type from the screen, so they expire and allow few attempts.
+// A withdrawn code is only replaced when the user asks for a new one on the device.
+const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+const PAIRING_CODE_MAX_ATTEMPTS = 5;
+
+// After a wrong code the same peer, and any peer, must wait before trying again; the wait doubles per failure
+const PAIRING_BACKOFF_BASE_MS = 1000;
+const PAIRING_BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+// lastSeen changes on every authorized request, so it is kept in memory and written at most this often
+const LAST_SEEN_FLUSH_MS = 60 * 1000;
+
+function backoffDelay(failures) {
+  return Math.min(PAIRING_BACKOFF_BASE_MS * 2 ** (failures - 1), PAIRING_BACKOFF_MAX_MS);
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
+}
+
+function tokensMatch(a, b) {
+  const bufA = Buffer.from(a, 'hex');
+  const bufB = Buffer.from(b, 'hex');
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+// Pairs hosts with the device. Paired hosts are stored in preferences.json as
+// { id, name, tokenHash, pairedAt, lastSeen }; the token itself only lives on the host.
+class PairingManager {
+  constructor({ loadPreferences, savePreferences }) {
+    this.loadPreferences = loadPreferences;
+    this.savePreferences = savePreferences;
+    this.activeCode = null; // { code, expiresAt, attempts }
+    this.codeTimer = null;
+    this.peerFailures = new Map(); // remote address -> { count, lastFailureAt }
+    this.globalFailures = { count: 0, lastFailureAt: 0 };
+    this.lastSeen = new Map(); // host id -> last use not yet written to preferences.json
+    this.lastSeenTimer = null;
+    this.onCodeChanged = null; // Called with { code, expiresAt } or null
+    this.onHostsChanged = null; // Called with the public host list
+    this.onHostRevoked = null; // Called with the revoked host id
+  }
+
+  isRequired() {
+    return this.loadPreferences().requirePairing === true;
+  }
+
+  getActiveCode() {
+    if (this.activeCode && this.activeCode.expiresAt <= Date.now()) {
+      this.clearCode();
+    }
+    return this.activeCode ? { code: this.activeCode.code, expiresAt: this.activeCode.expiresAt } : null;
+  }
+
+  createCode() {
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const expiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+    this.activeCode = { code, expiresAt, attempts: 0 };
+    // Showing a code is a user action, so guessing from any peer may start again
+    this.globalFailures = { count: 0, lastFailureAt: 0 };
+
+    clearTimeout(this.codeTimer);
+    this.codeTimer = setTimeout(() => this.clearCode(), PAIRING_CODE_TTL_MS);
+
+    console.log('[Pairing] New pairing code displayed');
+    this.notifyCodeChanged();
+    return { code, expiresAt };
+  }
+
+  clearCode() {
+    if (!this.activeCode) return;
+    clearTimeout(this.codeTimer);
+    this.codeTimer = null;
+    this.activeCode = null;
+    this.notifyCodeChanged();
+  }
+
+  // Milliseconds a peer has to wait before its next pairing attempt, 0 when it may try now
+  getRetryDelay(peer) {
+    const now = Date.now();
+    const remaining = ({ count, lastFailureAt }) => (count > 0 ? lastFailureAt + backoffDelay(count) - now : 0);
+
+    // Forget peers whose backoff ran out long ago so the map cannot grow without bound
+    for (const [address, failures] of this.peerFailures) {
+      if (now - failures.lastFailureAt > PAIRING_BACKOFF_MAX_MS * 2) this.peerFailures.delete(address);
+    }
+
+    const peerFailures = this.peerFailures.get(peer);
+    return Math.max(0, remaining(this.globalFailures), peerFailures ? remaining(peerFailures) : 0);
+  }
+
+  recordFailure(peer) {
+    const now = Date.now();
+    const failures = this.peerFailures.get(peer) || { count: 0, lastFailureAt: 0 };
+    this.peerFailures.set(peer, { count: failures.count + 1, lastFailureAt: now });
+    this.globalFailures = { count: this.globalFailures.count + 1, lastFailureAt: now };
+  }
+
+  // Exchanges the on-screen code for a new token; returns null when the code is wrong or expired.
+  // Callers check getRetryDelay(peer) first; a wrong code adds to the peer's and the global backoff.
+  pair(code, hostName, peer = null) {
+    if (!this.getActiveCode()) return null;
+
+    if (String(code) !== this.activeCode.code) {
+      this.recordFailure(peer);
+      this.activeCode.attempts++;
+      if (this.activeCode.attempts >= PAIRING_CODE_MAX_ATTEMPTS) {
+        console.log('[Pairing] Too many wrong codes, pairing code withdrawn until a new one is shown on the device');
+        this.clearCode();
+      }
+      return null;
+    }
+
+    this.peerFailures.delete(peer);
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const host = {
+      id: crypto.randomUUID(),
+      name: (typeof hostName === 'string' && hostName.trim()) || 'Unnamed host',
+      tokenHash: hashToken(token),
+      pairedAt: Date.now(),
+      lastSeen: Date.now()
+    };
+
+    const prefs = this.loadPreferences();
+    prefs.pairedHosts = [...(prefs.pairedHosts || []), host];
+    this.savePreferences(prefs);
+
+    console.log(`[Pairing] Paired host "${host.name}" (${host.id})`);
+    this.clearCode();
+    this.notifyHostsChanged();
+    return { hostId: host.id, token };
+  }
+
+  // Returns the paired host for a token, or null
+  verify(token) {
+    if (typeof token !== 'string' || !token) return null;
+
+    const tokenHash = hashToken(token);
+    const prefs = this.loadPreferences();
+    const host = (prefs.pairedHosts || []).find(h => tokensMatch(h.tokenHash, tokenHash));
+    if (!host) return null;
+
+    this.lastSeen.set(host.id, Date.now());
+    if (!this.lastSeenTimer) {
+      this.lastSeenTimer = setTimeout(() => this.flushLastSeen(), LAST_SEEN_FLUSH_MS);
+    }
+    return { id: host.id, name: host.name };
+  }
+
+  // Writes pending lastSeen times to preferences.json; also called when the app quits
+  flushLastSeen() {
+    clearTimeout(this.lastSeenTimer);
+    this.lastSeenTimer = null;
+    if (this.lastSeen.size === 0) return;
+
+    const prefs = this.loadPreferences();
+    for (const host of prefs.pairedHosts || []) {
+      if (this.lastSeen.has(host.id)) host.lastSeen = this.lastSeen.get(host.id);
+    }
+    this.lastSeen.clear();
+    this.savePreferences(prefs);
+  }
+
+  listHosts() {
+    const prefs = this.loadPreferences();
+    return (prefs.pairedHosts || []).map(({ id, name, pairedAt, lastSeen }) => ({
+      id,
+      name,
+      pairedAt,
+      lastSeen: this.lastSeen.get(id) ?? lastSeen
+    }));
+  }
+
+  revoke(hostId) {
+    const prefs = this.loadPreferences();
+    const hosts = prefs.pairedHosts || [];
+    const remaining = hosts.filter(h => h.id !== hostId);
+    if (remaining.length === hosts.length) return false;
+
+    prefs.pairedHosts = remaining;
+    this.savePreferences(prefs);
+    this.lastSeen.delete(hostId);
+    console.log(`[Pairing] Revoked host ${hostId}`);
+
+    if (this.onHostRevoked) this.onHostRevoked(hostId);
+    this.notifyHostsChanged();
+    return true;
+  }
+
+  notifyCodeChanged() {
+    if (this.onCodeChanged) this.onCodeChanged(this.getActiveCode());
+  }
+
+  notifyHostsChanged() {
+    if (this.onHostsChanged) this.onHostsChanged(this.listHosts());
+  }
+}
+
+module.exports = { PairingManager };
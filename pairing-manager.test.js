@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PairingManager } from './pairing-manager';
+
+function createManager(preferences = {}) {
+  let stored = { requirePairing: true, ...preferences };
+  const savePreferences = vi.fn((prefs) => {
+    stored = JSON.parse(JSON.stringify(prefs));
+  });
+  const manager = new PairingManager({
+    loadPreferences: () => JSON.parse(JSON.stringify(stored)),
+    savePreferences
+  });
+  return { manager, savePreferences, stored: () => stored };
+}
+
+describe('PairingManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('exchanges the displayed code for a token that verifies', () => {
+    const { manager, stored } = createManager();
+    const { code } = manager.createCode();
+
+    const paired = manager.pair(code, 'Workshop PC', '10.0.0.2');
+
+    expect(paired).toMatchObject({ hostId: expect.any(String), token: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(manager.verify(paired.token)).toEqual({ id: paired.hostId, name: 'Workshop PC' });
+    expect(manager.getActiveCode()).toBeNull();
+    expect(JSON.stringify(stored())).not.toContain(paired.token);
+  });
+
+  it('rejects unknown tokens', () => {
+    const { manager } = createManager();
+    const { code } = manager.createCode();
+    manager.pair(code, 'Workshop PC');
+
+    expect(manager.verify('00'.repeat(32))).toBeNull();
+    expect(manager.verify('')).toBeNull();
+    expect(manager.verify(undefined)).toBeNull();
+  });
+
+  it('does not pair once the code has expired', () => {
+    const { manager } = createManager();
+    const { code } = manager.createCode();
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    expect(manager.pair(code, 'Workshop PC')).toBeNull();
+  });
+
+  it('doubles the wait after each wrong code, for the peer and for everyone', () => {
+    const { manager } = createManager();
+    manager.createCode();
+
+    manager.pair('wrong', 'Host', '10.0.0.2');
+    expect(manager.getRetryDelay('10.0.0.2')).toBe(1000);
+    expect(manager.getRetryDelay('10.0.0.3')).toBe(1000);
+
+    vi.advanceTimersByTime(1000);
+    manager.pair('wrong', 'Host', '10.0.0.2');
+    expect(manager.getRetryDelay('10.0.0.2')).toBe(2000);
+
+    vi.advanceTimersByTime(2000);
+    expect(manager.getRetryDelay('10.0.0.2')).toBe(0);
+  });
+
+  it('withdraws the code after too many wrong guesses', () => {
+    const { manager } = createManager();
+    const { code } = manager.createCode();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      manager.pair('wrong', 'Host', '10.0.0.2');
+    }
+
+    expect(manager.getActiveCode()).toBeNull();
+    expect(manager.pair(code, 'Host', '10.0.0.2')).toBeNull();
+  });
+
+  it('writes last-seen times debounced', () => {
+    const { manager, savePreferences, stored } = createManager();
+    const { code } = manager.createCode();
+    const { hostId, token } = manager.pair(code, 'Host');
+    savePreferences.mockClear();
+
+    vi.advanceTimersByTime(1000);
+    manager.verify(token);
+    manager.verify(token);
+    expect(savePreferences).not.toHaveBeenCalled();
+    expect(manager.listHosts()[0].lastSeen).toBe(Date.now());
+
+    vi.advanceTimersByTime(60 * 1000);
+
+    expect(savePreferences).toHaveBeenCalledTimes(1);
+    expect(stored().pairedHosts.find((host) => host.id === hostId).lastSeen).toBe(Date.now() - 60 * 1000);
+  });
+
+  it('revokes a host so its token no longer verifies', () => {
+    const { manager } = createManager();
+    const onHostRevoked = vi.fn();
+    manager.onHostRevoked = onHostRevoked;
+    const { code } = manager.createCode();
+    const { hostId, token } = manager.pair(code, 'Host');
+
+    expect(manager.revoke(hostId)).toBe(true);
+
+    expect(manager.verify(token)).toBeNull();
+    expect(manager.listHosts()).toEqual([]);
+    expect(onHostRevoked).toHaveBeenCalledWith(hostId);
+    expect(manager.revoke(hostId)).toBe(false);
+  });
+});
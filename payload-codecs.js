@@ -0,0 +1,246 @@
+const zlib = require('zlib');
+const { promisify } = require('util');
+
+const pGunzip = promisify(zlib.gunzip);
+const pInflate = promisify(zlib.inflate);
+const pInflateRaw = promisify(zlib.inflateRaw);
+const pBrotliDecompress = promisify(zlib.brotliDecompress);
+
+// Largest payload any codec may expand to; a few bytes of compressed input can otherwise claim gigabytes
+const MAX_DECODED_LENGTH = 32 * 1024 * 1024;
+
+// Raised when a payload would decode past its limit; the socket replies with a protocol error
+class PayloadTooLargeError extends Error {
+  constructor(codecName, maxLength) {
+    super(`${codecName} payload expands past the ${maxLength} byte limit`);
+    this.name = 'PayloadTooLargeError';
+    this.code = 'payload_too_large';
+  }
+}
+
+const ZSTD_MAGIC = 0xFD2FB528;
+const ZSTD_MAX_BLOCK_SIZE = 128 * 1024;
+
+// Upper bound on what a zstd payload decodes to, read from its frame and block headers.
+// fzstd allocates the declared content size (else the window size) before decoding, so this runs first.
+function zstdOutputBound(buf) {
+  const truncated = () => new Error('Truncated zstd frame');
+  let offset = 0;
+  let total = 0;
+
+  while (offset < buf.length) {
+    if (offset + 5 > buf.length) throw truncated();
+    const magic = buf.readUInt32LE(offset);
+
+    // Skippable frames carry no output
+    if ((magic & 0xFFFFFFF0) === 0x184D2A50) {
+      if (offset + 8 > buf.length) throw truncated();
+      offset += 8 + buf.readUInt32LE(offset + 4);
+      continue;
+    }
+    if (magic !== ZSTD_MAGIC) throw new Error('Invalid zstd frame magic');
+
+    const descriptor = buf[offset + 4];
+    const contentSizeFlag = descriptor >> 6;
+    const singleSegment = (descriptor >> 5) & 1;
+    const hasChecksum = (descriptor >> 2) & 1;
+    let pos = offset + 5;
+
+    let windowSize = 0;
+    if (!singleSegment) {
+      if (pos >= buf.length) throw truncated();
+      const exponent = buf[pos] >> 3;
+      const base = 2 ** (10 + exponent);
+      windowSize = base + (base / 8) * (buf[pos] & 7);
+      pos++;
+    }
+    pos += [0, 1, 2, 4][descriptor & 3];
+
+    const contentSizeBytes = contentSizeFlag ? 1 << contentSizeFlag : singleSegment;
+    if (pos + contentSizeBytes > buf.length) throw truncated();
+    let contentSize = null;
+    if (contentSizeBytes === 1) contentSize = buf[pos];
+    else if (contentSizeBytes === 2) contentSize = buf.readUInt16LE(pos) + 256;
+    else if (contentSizeBytes === 4) contentSize = buf.readUInt32LE(pos);
+    else if (contentSizeBytes === 8) contentSize = Number(buf.readBigUInt64LE(pos));
+    pos += contentSizeBytes;
+    if (singleSegment) windowSize = contentSize;
+
+    // Without a declared size, count raw and RLE blocks exactly and compressed blocks at their maximum
+    const maxBlockSize = Math.min(windowSize, ZSTD_MAX_BLOCK_SIZE);
+    let blockBound = 0;
+    for (let last = 0; !last;) {
+      if (pos + 3 > buf.length) throw truncated();
+      const header = buf.readUIntLE(pos, 3);
+      pos += 3;
+      last = header & 1;
+      const blockType = (header >> 1) & 3;
+      const blockSize = header >> 3;
+      if (blockType === 0) {
+        pos += blockSize;
+        blockBound += blockSize;
+      } else if (blockType === 1) {
+        pos += 1;
+        blockBound += blockSize;
+      } else if (blockType === 2) {
+        pos += blockSize;
+        blockBound += maxBlockSize;
+      } else {
+        throw new Error('Reserved zstd block type');
+      }
+    }
+
+    total += Math.max(windowSize, contentSize ?? blockBound);
+    offset = pos + hasChecksum * 4;
+  }
+
+  return total;
+}
+
+// Node only ships zstd from 22.15; older runtimes (Electron 30) fall back to fzstd
+const zstdDecompress = zlib.zstdDecompress
+  ? promisify(zlib.zstdDecompress)
+  : async (buf, options) => {
+    if (zstdOutputBound(buf) > options.maxOutputLength) {
+      throw new PayloadTooLargeError('zstd', options.maxOutputLength);
+    }
+    return Buffer.from(require('fzstd').decompress(buf));
+  };
+
+// Codec ids travel in the high byte of the DATA/COMMAND message type (e.g. 0x0401 = brotli DATA).
+// Id 0 means "detect by magic bytes"; brotli and raw-deflate have no magic and need the flag.
+// decode(buf, maxLength) must not produce more than maxLength bytes.
+const BUILTIN_CODECS = [
+  {
+    id: 1,
+    name: 'gzip',
+    matches: (buf) => buf.length >= 2 && buf[0] === 0x1F && buf[1] === 0x8B,
+    decode: (buf, maxLength) => pGunzip(buf, { maxOutputLength: maxLength })
+  },
+  {
+    id: 2,
+    name: 'deflate',
+    // zlib header: CMF 0x78 and a 16-bit header that is a multiple of 31
+    matches: (buf) => buf.length >= 2 && buf[0] === 0x78 && ((buf[0] << 8) | buf[1]) % 31 === 0,
+    decode: (buf, maxLength) => pInflate(buf, { maxOutputLength: maxLength })
+  },
+  {
+    id: 3,
+    name: 'raw-deflate',
+    decode: (buf, maxLength) => pInflateRaw(buf, { maxOutputLength: maxLength })
+  },
+  {
+    id: 4,
+    name: 'brotli',
+    decode: (buf, maxLength) => pBrotliDecompress(buf, { maxOutputLength: maxLength })
+  },
+  {
+    id: 5,
+    name: 'zstd',
+    matches: (buf) => buf.length >= 4 && buf[0] === 0x28 && buf[1] === 0xB5 && buf[2] === 0x2F && buf[3] === 0xFD,
+    decode: (buf, maxLength) => zstdDecompress(buf, { maxOutputLength: maxLength })
+  }
+];
+
+class CodecRegistry {
+  constructor(codecs = BUILTIN_CODECS) {
+    this.maxDecodedLength = MAX_DECODED_LENGTH;
+    this.codecs = new Map();
+    this.stats = new Map();
+    for (const codec of codecs) {
+      this.register(codec);
+    }
+  }
+
+  // codec = { id, name, decode: async (Buffer, maxLength) => Buffer, matches?: (Buffer) => boolean }
+  register(codec) {
+    this.codecs.set(codec.id, codec);
+    this.stats.set(codec.name, { messages: 0, failures: 0, bytesIn: 0, bytesOut: 0, decodeMs: 0 });
+    return this;
+  }
+
+  has(id) {
+    return this.codecs.has(id);
+  }
+
+  getByName(name) {
+    for (const codec of this.codecs.values()) {
+      if (codec.name === name) return codec;
+    }
+    return null;
+  }
+
+  detect(buf) {
+    for (const codec of this.codecs.values()) {
+      if (codec.matches && codec.matches(buf)) return codec;
+    }
+    return null;
+  }
+
+  list() {
+    return Array.from(this.codecs.values(), ({ id, name, matches }) => ({ id, name, magic: !!matches }));
+  }
+
+  // Decodes a payload using the codec id from the header, else its magic bytes, else fallbackName.
+  // Resolves with { buffer, codec } where codec is null for uncompressed payloads; rejects with
+  // PayloadTooLargeError when the output would exceed maxLength.
+  async decode(payload, codecId = 0, fallbackName = null, maxLength = this.maxDecodedLength) {
+    let codec = null;
+    let detected = false;
+    if (codecId) {
+      codec = this.codecs.get(codecId);
+      if (!codec) {
+        throw new Error(`Unknown codec id ${codecId}`);
+      }
+    } else {
+      codec = this.detect(payload);
+      detected = !!codec;
+      codec = codec || (fallbackName && this.getByName(fallbackName));
+    }
+
+    if (!codec) {
+      return { buffer: payload, codec: null };
+    }
+
+    const stats = this.stats.get(codec.name);
+    const started = process.hrtime.bigint();
+    try {
+      const buffer = await codec.decode(payload, maxLength);
+      // Registered codecs may ignore the limit, so it is checked again here
+      if (buffer.length > maxLength) {
+        throw new PayloadTooLargeError(codec.name, maxLength);
+      }
+      stats.messages++;
+      stats.bytesIn += payload.length;
+      stats.bytesOut += buffer.length;
+      stats.decodeMs += Number(process.hrtime.bigint() - started) / 1e6;
+      return { buffer, codec: codec.name };
+    } catch (e) {
+      stats.failures++;
+      if (e instanceof PayloadTooLargeError) throw e;
+      // zlib, brotli and native zstd stop at maxOutputLength with this code
+      if (e.code === 'ERR_BUFFER_TOO_LARGE') throw new PayloadTooLargeError(codec.name, maxLength);
+      // Magic bytes are only a guess (a deflate header is any 0x78 pair divisible by 31), so an
+      // uncompressed payload that happens to match is passed through rather than dropped
+      if (detected) return { buffer: payload, codec: null };
+      throw new Error(`${codec.name} decode failed: ${e.message}`);
+    }
+  }
+
+  getStats() {
+    const result = {};
+    for (const [name, stats] of this.stats) {
+      result[name] = {
+        messages: stats.messages,
+        failures: stats.failures,
+        bytesIn: stats.bytesIn,
+        bytesOut: stats.bytesOut,
+        ratio: stats.bytesIn ? Number((stats.bytesOut / stats.bytesIn).toFixed(2)) : null,
+        avgDecodeMs: stats.messages ? Number((stats.decodeMs / stats.messages).toFixed(3)) : null
+      };
+    }
+    return result;
+  }
+}
+
+module.exports = { CodecRegistry, BUILTIN_CODECS, PayloadTooLargeError, MAX_DECODED_LENGTH };
@@ -0,0 +1,115 @@
+import zlib from 'zlib';
+import { encode } from '@msgpack/msgpack';
+import { describe, expect, it } from 'vitest';
+import { CodecRegistry, PayloadTooLargeError } from './payload-codecs';
+
+const DOCUMENT = Buffer.from(JSON.stringify({ type: 'rive_sensor', sensors: { rpm: { value: 3200 } } }));
+
+describe('CodecRegistry', () => {
+  describe('detect', () => {
+    const registry = new CodecRegistry();
+
+    it.each([
+      ['gzip', zlib.gzipSync(DOCUMENT)],
+      ['deflate', zlib.deflateSync(DOCUMENT)],
+      ['deflate', zlib.deflateSync(DOCUMENT, { level: 1 })],
+      ['deflate', zlib.deflateSync(DOCUMENT, { level: 9 })],
+      ['zstd', Buffer.from([0x28, 0xB5, 0x2F, 0xFD, 0x00])]
+    ])('recognises %s by its magic bytes', (name, payload) => {
+      expect(registry.detect(payload)?.name).toBe(name);
+    });
+
+    it.each([
+      ['JSON', DOCUMENT],
+      ['a msgpack sensor frame', Buffer.from(encode({ s: 'screen', t: [[0, 1]] }))],
+      ['brotli', zlib.brotliCompressSync(DOCUMENT)],
+      ['raw deflate', zlib.deflateRawSync(DOCUMENT)],
+      ['a 0x78 byte without a zlib check', Buffer.from([0x78, 0x00, 0x01])],
+      ['a single byte', Buffer.from([0x78])]
+    ])('does not claim %s', (_name, payload) => {
+      expect(registry.detect(payload)).toBeNull();
+    });
+  });
+
+  describe('decode', () => {
+    it.each([
+      ['gzip', zlib.gzipSync(DOCUMENT)],
+      ['deflate', zlib.deflateSync(DOCUMENT)]
+    ])('decodes %s found by magic bytes', async (name, payload) => {
+      const registry = new CodecRegistry();
+
+      const decoded = await registry.decode(payload);
+
+      expect(decoded.codec).toBe(name);
+      expect(decoded.buffer.equals(DOCUMENT)).toBe(true);
+    });
+
+    it.each([
+      [3, 'raw-deflate', zlib.deflateRawSync(DOCUMENT)],
+      [4, 'brotli', zlib.brotliCompressSync(DOCUMENT)]
+    ])('decodes codec id %i (%s) from the header', async (id, name, payload) => {
+      const registry = new CodecRegistry();
+
+      const decoded = await registry.decode(payload, id);
+
+      expect(decoded.codec).toBe(name);
+      expect(decoded.buffer.equals(DOCUMENT)).toBe(true);
+    });
+
+    it('passes uncompressed payloads through', async () => {
+      const registry = new CodecRegistry();
+
+      expect(await registry.decode(DOCUMENT)).toEqual({ buffer: DOCUMENT, codec: null });
+    });
+
+    it('passes through a msgpack payload that only looks like a zlib header', async () => {
+      // Positive fixint 120 followed by a fixarray: 0x789C is also the default zlib header
+      const payload = Buffer.from(encode([120, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]])).subarray(1);
+      expect(payload[0]).toBe(0x78);
+      const registry = new CodecRegistry();
+      expect(registry.detect(payload)?.name).toBe('deflate');
+
+      const decoded = await registry.decode(payload);
+
+      expect(decoded).toEqual({ buffer: payload, codec: null });
+    });
+
+    it('uses the fallback codec when nothing matches', async () => {
+      const registry = new CodecRegistry();
+
+      const decoded = await registry.decode(zlib.deflateRawSync(DOCUMENT), 0, 'raw-deflate');
+
+      expect(decoded.codec).toBe('raw-deflate');
+      expect(decoded.buffer.equals(DOCUMENT)).toBe(true);
+    });
+
+    it('fails a payload that does not decode with the codec named in the header', async () => {
+      const registry = new CodecRegistry();
+
+      await expect(registry.decode(DOCUMENT, 2)).rejects.toThrow('deflate decode failed');
+      expect(registry.getStats().deflate.failures).toBe(1);
+    });
+
+    it('rejects unknown codec ids', async () => {
+      await expect(new CodecRegistry().decode(DOCUMENT, 9)).rejects.toThrow('Unknown codec id 9');
+    });
+
+    it.each([
+      ['gzip', 0, zlib.gzipSync(Buffer.alloc(64 * 1024))],
+      ['deflate', 0, zlib.deflateSync(Buffer.alloc(64 * 1024))],
+      ['brotli', 4, zlib.brotliCompressSync(Buffer.alloc(64 * 1024))]
+    ])('stops %s output at the size limit', async (_name, id, payload) => {
+      const registry = new CodecRegistry();
+
+      await expect(registry.decode(payload, id, null, 1024)).rejects.toBeInstanceOf(PayloadTooLargeError);
+    });
+
+    it('enforces the limit on codecs that ignore it', async () => {
+      const registry = new CodecRegistry([
+        { id: 7, name: 'expand', decode: async () => Buffer.alloc(2048) }
+      ]);
+
+      await expect(registry.decode(DOCUMENT, 7, null, 1024)).rejects.toBeInstanceOf(PayloadTooLargeError);
+    });
+  });
+});
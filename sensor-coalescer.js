@@ -0,0 +1,142 @@
+// Sensor updates are held while the renderer is busy, so a burst from the host becomes one rive_sensor
+// batch instead of a queue of stale IPC messages. A full rive_sensor replaces the pending tag set, and
+// rive_sensor_delta documents merge into it per tag.
+// A batch is only sent once the renderer has acked the previous one (it acks on its next animation
+// frame), and never faster than maxRate batches per second when a rate is set.
+const DEFAULT_MAX_RATE = 0; // 0 = paced by renderer acks only (one batch per display frame)
+
+// A renderer that reloads or hangs never acks; stop waiting after this long
+const ACK_TIMEOUT_MS = 250;
+
+class SensorCoalescer {
+  constructor(options = {}) {
+    this.maxRate = options.maxRate ?? DEFAULT_MAX_RATE;
+    this.queues = new Map(); // key (screen route) -> { pending, inFlight, lastSentAt, timer, ackTimer }
+    this.onFlush = null; // Called with (key, doc) when a batch is ready for the renderer
+    this.stats = { received: 0, batches: 0, merged: 0, dropped: 0 };
+  }
+
+  setMaxRate(rate) {
+    const value = Number(rate);
+    this.maxRate = Number.isFinite(value) && value > 0 ? value : 0;
+    console.log(`[Coalescer] Max sensor rate: ${this.maxRate ? `${this.maxRate}/s` : 'display frame'}`);
+  }
+
+  getQueue(key) {
+    let queue = this.queues.get(key);
+    if (!queue) {
+      queue = { pending: null, inFlight: false, lastSentAt: 0, timer: null, ackTimer: null };
+      this.queues.set(key, queue);
+    }
+    return queue;
+  }
+
+  push(key, doc) {
+    const queue = this.getQueue(key);
+    const sensors = doc.sensors || {};
+    this.stats.received++;
+
+    if (!queue.pending) {
+      queue.pending = { ...doc, type: 'rive_sensor', sensors: { ...sensors } };
+    } else if (doc.type === 'rive_sensor_delta') {
+      // Newer values replace ones the renderer never saw
+      this.stats.merged++;
+      for (const tag of Object.keys(sensors)) {
+        if (tag in queue.pending.sensors) this.stats.dropped++;
+      }
+      queue.pending = { ...queue.pending, ...doc, type: 'rive_sensor', sensors: { ...queue.pending.sensors, ...sensors } };
+    } else {
+      // A full payload is the complete tag set; tags it leaves out are gone
+      this.stats.merged++;
+      this.stats.dropped += Object.keys(queue.pending.sensors).length;
+      queue.pending = { ...doc, sensors: { ...sensors } };
+    }
+
+    this.schedule(key, queue);
+  }
+
+  // The renderer has painted the last batch
+  ack(key) {
+    const queue = this.queues.get(key);
+    if (!queue || !queue.inFlight) return;
+
+    clearTimeout(queue.ackTimer);
+    queue.ackTimer = null;
+    queue.inFlight = false;
+    this.schedule(key, queue);
+  }
+
+  // Forget a screen's pending batch, e.g. when its window closes
+  discard(key) {
+    const queue = this.queues.get(key);
+    if (!queue) return;
+
+    if (queue.pending) {
+      this.stats.dropped += Object.keys(queue.pending.sensors).length;
+    }
+    clearTimeout(queue.timer);
+    clearTimeout(queue.ackTimer);
+    this.queues.delete(key);
+  }
+
+  clear() {
+    for (const key of Array.from(this.queues.keys())) {
+      this.discard(key);
+    }
+  }
+
+  schedule(key, queue) {
+    if (!queue.pending || queue.inFlight || queue.timer) return;
+
+    const interval = this.maxRate ? 1000 / this.maxRate : 0;
+    const wait = Math.max(0, queue.lastSentAt + interval - Date.now());
+    if (wait === 0) {
+      this.flush(key, queue);
+      return;
+    }
+
+    queue.timer = setTimeout(() => {
+      queue.timer = null;
+      this.flush(key, queue);
+    }, wait);
+  }
+
+  flush(key, queue) {
+    const doc = queue.pending;
+    if (!doc) return;
+
+    queue.pending = null;
+    queue.inFlight = true;
+    queue.lastSentAt = Date.now();
+    queue.ackTimer = setTimeout(() => {
+      queue.ackTimer = null;
+      this.ack(key);
+    }, ACK_TIMEOUT_MS);
+    this.stats.batches++;
+
+    if (this.onFlush) {
+      try {
+        this.onFlush(key, doc);
+      } catch (err) {
+        console.error('[Coalescer] Flush failed:', err);
+      }
+    }
+  }
+
+  getStats() {
+    let pending = 0;
+    for (const queue of this.queues.values()) {
+      if (queue.pending) pending += Object.keys(queue.pending.sensors).length;
+    }
+    return {
+      maxRate: this.maxRate,
+      received: this.stats.received,
+      batches: this.stats.batches,
+      merged: this.stats.merged,
+      dropped: this.stats.dropped,
+      pending
+    };
+  }
+}
+
+module.exports = { SensorCoalescer, DEFAULT_MAX_RATE };
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SensorCoalescer } from './sensor-coalescer';
+
+const full = (sensors) => ({ type: 'rive_sensor', screenId: 'screen', sensors });
+const delta = (sensors) => ({ type: 'rive_sensor_delta', screenId: 'screen', sensors });
+
+function createCoalescer(options) {
+  const coalescer = new SensorCoalescer(options);
+  const flushed = [];
+  coalescer.onFlush = (key, doc) => flushed.push({ key, doc });
+  return { coalescer, flushed };
+}
+
+describe('SensorCoalescer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the first update straight away', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, full({ rpm: 1 }));
+
+    expect(flushed).toEqual([{ key: 1, doc: full({ rpm: 1 }) }]);
+  });
+
+  it('holds updates until the renderer acks the batch in flight', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, full({ rpm: 1 }));
+    coalescer.push(1, full({ rpm: 2 }));
+    expect(flushed).toHaveLength(1);
+
+    coalescer.ack(1);
+
+    expect(flushed.map(({ doc }) => doc.sensors)).toEqual([{ rpm: 1 }, { rpm: 2 }]);
+  });
+
+  it('replaces the pending tag set with a newer full payload', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, full({ rpm: 1 }));
+    coalescer.push(1, full({ rpm: 2, speed: 10 }));
+    coalescer.push(1, full({ speed: 11 }));
+    coalescer.ack(1);
+
+    expect(flushed[1].doc).toEqual(full({ speed: 11 }));
+    expect(coalescer.getStats()).toMatchObject({ received: 3, batches: 2, merged: 1, dropped: 2 });
+  });
+
+  it('merges deltas into the pending tag set and sends them as rive_sensor', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, full({ rpm: 1 }));
+    coalescer.push(1, full({ rpm: 2, speed: 10 }));
+    coalescer.push(1, delta({ speed: 11 }));
+    coalescer.push(1, delta({ gear: 3 }));
+    coalescer.ack(1);
+
+    expect(flushed[1].doc).toEqual(full({ rpm: 2, speed: 11, gear: 3 }));
+    expect(coalescer.getStats()).toMatchObject({ merged: 2, dropped: 1 });
+  });
+
+  it('sends a lone delta as rive_sensor', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, delta({ rpm: 1 }));
+
+    expect(flushed[0].doc).toEqual(full({ rpm: 1 }));
+  });
+
+  it('keeps screens apart', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, full({ rpm: 1 }));
+    coalescer.push(2, full({ rpm: 2 }));
+
+    expect(flushed.map(({ key }) => key)).toEqual([1, 2]);
+  });
+
+  it('stops waiting for an ack that never comes', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, full({ rpm: 1 }));
+    coalescer.push(1, full({ rpm: 2 }));
+    vi.advanceTimersByTime(249);
+    expect(flushed).toHaveLength(1);
+
+    vi.advanceTimersByTime(1);
+
+    expect(flushed).toHaveLength(2);
+  });
+
+  it('spaces batches by the max rate', () => {
+    const { coalescer, flushed } = createCoalescer({ maxRate: 10 });
+
+    coalescer.push(1, full({ rpm: 1 }));
+    coalescer.ack(1);
+    coalescer.push(1, full({ rpm: 2 }));
+    vi.advanceTimersByTime(99);
+    expect(flushed).toHaveLength(1);
+
+    vi.advanceTimersByTime(1);
+
+    expect(flushed).toHaveLength(2);
+  });
+
+  it('drops a pending batch when the screen is discarded', () => {
+    const { coalescer, flushed } = createCoalescer();
+
+    coalescer.push(1, full({ rpm: 1 }));
+    coalescer.push(1, full({ rpm: 2, speed: 10 }));
+    coalescer.discard(1);
+    vi.runAllTimers();
+
+    expect(flushed).toHaveLength(1);
+    expect(coalescer.getStats()).toMatchObject({ dropped: 2, pending: 0 });
+  });
+});
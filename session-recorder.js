@@ -0,0 +1,178 @@
+const fs = require('fs');
+const path = require('path');
+
+// Session files are JSONL: a header line, then one entry per decoded message.
+//   { kind: 'session', version: 1, startedAt }
+//   { t, kind: 'message' | 'command', route, doc }   (t = ms since the session started)
+const SESSION_VERSION = 1;
+
+function timestampName(date = new Date()) {
+  const pad = (n) => String(n).padStart(2, '0');
+  return `session-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.jsonl`;
+}
+
+class SessionRecorder {
+  constructor(directory) {
+    this.directory = directory;
+    this.stream = null;
+    this.filePath = null;
+    this.startedAt = 0;
+    this.entryCount = 0;
+  }
+
+  isRecording() {
+    return !!this.stream;
+  }
+
+  start() {
+    if (this.stream) return this.filePath;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.filePath = path.join(this.directory, timestampName());
+    this.startedAt = Date.now();
+    this.entryCount = 0;
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+    this.stream.on('error', (err) => {
+      console.error('[Recorder] Write failed:', err.message);
+    });
+    this.write({ kind: 'session', version: SESSION_VERSION, startedAt: this.startedAt });
+
+    console.log(`[Recorder] Recording session to ${this.filePath}`);
+    return this.filePath;
+  }
+
+  record(kind, doc, route = 0) {
+    if (!this.stream) return;
+    this.write({ t: Date.now() - this.startedAt, kind, route, doc });
+    this.entryCount++;
+  }
+
+  stop() {
+    if (!this.stream) return null;
+
+    const filePath = this.filePath;
+    this.stream.end();
+    this.stream = null;
+    console.log(`[Recorder] Session saved (${this.entryCount} entries): ${filePath}`);
+    return filePath;
+  }
+
+  write(line) {
+    this.stream.write(JSON.stringify(line) + '\n');
+  }
+}
+
+class SessionPlayer {
+  constructor() {
+    this.entries = [];
+    this.index = 0;
+    this.speed = 1;
+    this.mode = null; // 'timed' | 'step'
+    this.timer = null;
+    this.onEntry = null; // Called with each entry as it is replayed
+    this.onFinished = null;
+  }
+
+  load(filePath) {
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+    const entries = [];
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        if (entry.kind === 'message' || entry.kind === 'command') {
+          entries.push(entry);
+        }
+      } catch (e) {
+        console.error('[Player] Skipping unreadable line:', e.message);
+      }
+    }
+
+    this.stop();
+    this.entries = entries;
+    this.index = 0;
+    console.log(`[Player] Loaded ${entries.length} entries from ${filePath}`);
+    return entries.length;
+  }
+
+  isPlaying() {
+    return this.mode !== null;
+  }
+
+  isStepping() {
+    return this.mode === 'step';
+  }
+
+  // Replays entries on their recorded timeline; speed 2 plays twice as fast
+  play(speed = 1) {
+    this.stop();
+    this.mode = 'timed';
+    this.speed = speed;
+    this.index = 0;
+    if (!this.finishIfEmpty()) {
+      this.scheduleNext();
+    }
+  }
+
+  // Replays nothing until step() is called
+  startStepping() {
+    this.stop();
+    this.mode = 'step';
+    this.index = 0;
+    this.finishIfEmpty();
+  }
+
+  step() {
+    if (this.mode !== 'step') return false;
+    this.emitNext();
+    return true;
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.mode = null;
+  }
+
+  finishIfEmpty() {
+    if (this.entries.length > 0) return false;
+    console.log('[Player] Session has no entries to replay');
+    this.stop();
+    if (this.onFinished) this.onFinished();
+    return true;
+  }
+
+  scheduleNext() {
+    if (this.index >= this.entries.length) return;
+
+    const previousT = this.index > 0 ? this.entries[this.index - 1].t : this.entries[0].t;
+    const delay = Math.max(0, (this.entries[this.index].t - previousT) / this.speed);
+    this.timer = setTimeout(() => {
+      this.emitNext();
+      if (this.mode === 'timed') {
+        this.scheduleNext();
+      }
+    }, delay);
+  }
+
+  emitNext() {
+    const entry = this.entries[this.index++];
+    if (entry && this.onEntry) {
+      try {
+        this.onEntry(entry);
+      } catch (err) {
+        console.error('[Player] Replay failed:', err);
+      }
+    }
+
+    if (this.index >= this.entries.length) {
+      console.log('[Player] Replay finished');
+      this.stop();
+      if (this.onFinished) this.onFinished();
+    }
+  }
+}
+
+module.exports = { SessionRecorder, SessionPlayer };
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+
+// Small corner badge shown while the screen runs the layout saved by the last run, until a host sends one
+export function CachedLayoutIndicator({ visible }) {
+  const [status, setStatus] = useState(null);
+
+  useEffect(() => {
+    const { ipcRenderer } = require('electron');
+
+    // Main sends { savedAt } for a layout restored from disk and null once a host has sent a layout
+    const handleCacheStatus = (_event, value) => {
+      setStatus(value || null);
+    };
+
+    ipcRenderer.on('layout-cache-status', handleCacheStatus);
+
+    return () => {
+      ipcRenderer.off('layout-cache-status', handleCacheStatus);
+    };
+  }, []);
+
+  if (!visible || !status) return null;
+
+  const savedAt = status.savedAt ? new Date(status.savedAt).toLocaleString() : null;
+
+  return (
+    <div
+      title={savedAt ? `Layout saved ${savedAt}` : undefined}
+      style={{
+        position: 'fixed',
+        bottom: 8,
+        right: 8,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        color: '#cfcfcf',
+        padding: '3px 8px',
+        borderRadius: 4,
+        fontFamily: 'system-ui, Arial, sans-serif',
+        fontSize: 11,
+        opacity: 0.6,
+        zIndex: 999999,
+        pointerEvents: 'none',
+        userSelect: 'none',
+      }}
+    >
+      <span style={{ width: 6, height: 6, borderRadius: '50%', backgroundColor: '#ffaa00' }} />
+      Cached layout
+    </div>
+  );
+}
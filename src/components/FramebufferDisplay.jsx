@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+
+// Largest framebuffer kept; matches CANVAS_LIMITS in capabilities.js, which the server also enforces
+const MAX_FRAMEBUFFER_WIDTH = 7680;
+const MAX_FRAMEBUFFER_HEIGHT = 4320;
+
+// Convert little-endian RGB565 pixels into an RGBA ImageData buffer
+function rgb565ToImageData(ctx, pixels, width, height) {
+  const imageData = ctx.createImageData(width, height);
+  const out = imageData.data;
+  const count = width * height;
+
+  for (let i = 0, o = 0; i < count; i++, o += 4) {
+    const value = pixels[i * 2] | (pixels[i * 2 + 1] << 8);
+    const r = (value >> 11) & 0x1f;
+    const g = (value >> 5) & 0x3f;
+    const b = value & 0x1f;
+    out[o] = (r << 3) | (r >> 2);
+    out[o + 1] = (g << 2) | (g >> 4);
+    out[o + 2] = (b << 3) | (b >> 2);
+    out[o + 3] = 255;
+  }
+
+  return imageData;
+}
+
+export function FramebufferDisplay({ visible }) {
+  const canvasRef = useRef(null);
+
+  useEffect(() => {
+    const { ipcRenderer } = require('electron');
+
+    const handleBlit = (_event, region) => {
+      const canvas = canvasRef.current;
+      if (!canvas || !region) return;
+
+      const { x, y, width, height, pixels } = region;
+      if (x >= MAX_FRAMEBUFFER_WIDTH || y >= MAX_FRAMEBUFFER_HEIGHT) return;
+      const requiredWidth = Math.min(x + width, MAX_FRAMEBUFFER_WIDTH);
+      const requiredHeight = Math.min(y + height, MAX_FRAMEBUFFER_HEIGHT);
+
+      // Grow the framebuffer when a region lands outside it, keeping existing content
+      if (requiredWidth > canvas.width || requiredHeight > canvas.height) {
+        const previous = document.createElement('canvas');
+        previous.width = canvas.width;
+        previous.height = canvas.height;
+        previous.getContext('2d').drawImage(canvas, 0, 0);
+
+        canvas.width = Math.max(canvas.width, requiredWidth);
+        canvas.height = Math.max(canvas.height, requiredHeight);
+        canvas.getContext('2d').drawImage(previous, 0, 0);
+        console.log(`[FramebufferDisplay] Framebuffer resized to ${canvas.width}x${canvas.height}`);
+      }
+
+      // Anything past the limits is clipped by putImageData
+      const ctx = canvas.getContext('2d');
+      ctx.putImageData(rgb565ToImageData(ctx, pixels, width, height), x, y);
+    };
+
+    ipcRenderer.on('framebuffer-blit', handleBlit);
+
+    return () => {
+      ipcRenderer.off('framebuffer-blit', handleBlit);
+    };
+  }, []);
+
+  // Stay mounted while hidden so no blit is lost during a mode switch
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        display: visible ? 'flex' : 'none',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#000',
+      }}
+    >
+      <canvas
+        ref={canvasRef}
+        width={0}
+        height={0}
+        style={{
+          maxWidth: '100%',
+          maxHeight: '100%',
+          imageRendering: 'pixelated',
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+
+export function PairingCodeOverlay() {
+  const [pairingCode, setPairingCode] = useState(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const { ipcRenderer } = require('electron');
+
+    // Main sends { code, expiresAt } while a code is active and null once it is used or expires
+    const handlePairingCode = (_event, value) => {
+      setPairingCode(value || null);
+    };
+
+    ipcRenderer.on('pairing-code', handlePairingCode);
+
+    return () => {
+      ipcRenderer.off('pairing-code', handlePairingCode);
+    };
+  }, []);
+
+  // Tick the countdown while a code is shown
+  useEffect(() => {
+    if (!pairingCode) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pairingCode]);
+
+  if (!pairingCode) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((pairingCode.expiresAt - now) / 1000));
+  const countdown = `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: '#eaeaea',
+        padding: '24px 40px',
+        borderRadius: 8,
+        border: '1px solid #007acc',
+        boxShadow: '0 6px 24px rgba(0, 0, 0, 0.6)',
+        fontFamily: 'system-ui, Arial, sans-serif',
+        textAlign: 'center',
+        zIndex: 1000000,
+        pointerEvents: 'none',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ fontSize: 16, color: '#9aa0a6', marginBottom: 8 }}>Pairing code</div>
+      <div style={{ fontSize: 56, fontFamily: 'monospace', fontWeight: 'bold', letterSpacing: 8 }}>
+        {pairingCode.code}
+      </div>
+      <div style={{ fontSize: 13, color: '#9aa0a6', marginTop: 8 }}>Expires in {countdown}</div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HEADER_SIZE, StreamFramer, type Frame } from './stream-framer';
+
+const KNOWN_TYPES = new Set([0x0001, 0x0002, 0x0003]);
+const MAX_PAYLOAD = 1024;
+
+// Seeded so a failing cut pattern can be reproduced
+function mulberry32(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+function encodeFrame(type: number, route: number, payload: Buffer): Buffer {
+    const header = Buffer.alloc(HEADER_SIZE);
+    header.writeUInt32LE(payload.length, 0);
+    header.writeUInt16LE(type, 4);
+    header.writeUInt16LE(route, 6);
+    return Buffer.concat([header, payload]);
+}
+
+// Payloads of at least 16 bytes keep every window that straddles garbage and a real header invalid
+function randomFrames(random: () => number, count: number): Frame[] {
+    return Array.from({ length: count }, () => {
+        const payload = Buffer.alloc(randomInt(random, 16, 200));
+        for (let i = 0; i < payload.length; i++) payload[i] = randomInt(random, 0, 255);
+        return {
+            type: randomInt(random, 1, 3),
+            route: randomInt(random, 0, 4),
+            payload
+        };
+    });
+}
+
+function encodeFrames(frames: Frame[]): Buffer {
+    return Buffer.concat(frames.map((frame) => encodeFrame(frame.type, frame.route, frame.payload)));
+}
+
+// Splits the stream at `cuts` random offsets (duplicates allowed, giving empty chunks)
+function splitAtRandom(random: () => number, stream: Buffer, cuts: number): Buffer[] {
+    const offsets = Array.from({ length: cuts }, () => randomInt(random, 0, stream.length)).sort((a, b) => a - b);
+    const chunks: Buffer[] = [];
+    let start = 0;
+    for (const offset of offsets) {
+        chunks.push(stream.subarray(start, offset));
+        start = offset;
+    }
+    chunks.push(stream.subarray(start));
+    return chunks;
+}
+
+function createFramer(): StreamFramer {
+    return new StreamFramer({
+        maxPayloadLength: MAX_PAYLOAD,
+        isKnownType: (type) => KNOWN_TYPES.has(type),
+        label: '[Test]'
+    });
+}
+
+function feed(framer: StreamFramer, chunks: Buffer[]): Frame[] {
+    return chunks.flatMap((chunk) => framer.push(chunk));
+}
+
+function expectFrames(actual: Frame[], expected: Frame[]): void {
+    expect(actual.map((frame) => ({ ...frame, payload: frame.payload.toString('hex') })))
+        .toEqual(expected.map((frame) => ({ ...frame, payload: frame.payload.toString('hex') })));
+}
+
+describe('StreamFramer', () => {
+    it('decodes a single frame delivered in one chunk', () => {
+        const framer = createFramer();
+        const payload = Buffer.from('{"type":"rive_sensor"}');
+
+        const frames = framer.push(encodeFrame(0x0001, 2, payload));
+
+        expectFrames(frames, [{ type: 0x0001, route: 2, payload }]);
+        expect(framer.hasPartialFrame()).toBe(false);
+        expect(framer.getStats()).toEqual({ framesDecoded: 1, framingErrors: 0, bytesDiscarded: 0 });
+    });
+
+    it('decodes every frame of a multi-frame chunk', () => {
+        const random = mulberry32(1);
+        const expected = randomFrames(random, 20);
+        const framer = createFramer();
+
+        expectFrames(framer.push(encodeFrames(expected)), expected);
+        expect(framer.getStats().framesDecoded).toBe(20);
+    });
+
+    it('decodes multi-frame streams split at random offsets', () => {
+        for (let seed = 1; seed <= 200; seed++) {
+            const random = mulberry32(seed);
+            const expected = randomFrames(random, randomInt(random, 1, 12));
+            const stream = encodeFrames(expected);
+            const framer = createFramer();
+
+            const frames = feed(framer, splitAtRandom(random, stream, randomInt(random, 1, 40)));
+
+            expectFrames(frames, expected);
+            expect(framer.hasPartialFrame()).toBe(false);
+            expect(framer.getStats()).toEqual({ framesDecoded: expected.length, framingErrors: 0, bytesDiscarded: 0 });
+        }
+    });
+
+    it('decodes a stream fed one byte at a time', () => {
+        const random = mulberry32(7);
+        const expected = randomFrames(random, 5);
+        const stream = encodeFrames(expected);
+        const framer = createFramer();
+
+        const frames = feed(framer, Array.from(stream, (byte) => Buffer.from([byte])));
+
+        expectFrames(frames, expected);
+    });
+
+    it('keeps a partial frame buffered until the rest arrives', () => {
+        const payload = Buffer.alloc(64, 0xab);
+        const stream = encodeFrame(0x0002, 1, payload);
+        const framer = createFramer();
+
+        expect(framer.push(stream.subarray(0, 5))).toEqual([]);
+        expect(framer.hasPartialFrame()).toBe(true);
+        expect(framer.push(stream.subarray(5, 40))).toEqual([]);
+        expectFrames(framer.push(stream.subarray(40)), [{ type: 0x0002, route: 1, payload }]);
+        expect(framer.hasPartialFrame()).toBe(false);
+    });
+
+    it('drops partial state on reset', () => {
+        const random = mulberry32(3);
+        const [first, second] = randomFrames(random, 2);
+        const framer = createFramer();
+
+        framer.push(encodeFrame(first.type, first.route, first.payload).subarray(0, 12));
+        framer.reset();
+
+        expect(framer.hasPartialFrame()).toBe(false);
+        expectFrames(framer.push(encodeFrames([second])), [second]);
+    });
+
+    describe('resynchronisation', () => {
+        const corruptHeaders: Array<[string, Buffer]> = [
+            ['a zero length', encodeFrame(0x0001, 0, Buffer.alloc(0))],
+            ['an oversized length', (() => {
+                const header = Buffer.alloc(HEADER_SIZE);
+                header.writeUInt32LE(MAX_PAYLOAD + 1, 0);
+                header.writeUInt16LE(0x0001, 4);
+                return header;
+            })()],
+            ['an unknown type', encodeFrame(0x7777, 0, Buffer.alloc(4, 0x77)).subarray(0, HEADER_SIZE)],
+            ['0xff noise', Buffer.alloc(13, 0xff)]
+        ];
+
+        it.each(corruptHeaders)('recovers after a header with %s', (_name, garbage) => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+            try {
+                const random = mulberry32(11);
+                const before = randomFrames(random, 3);
+                const after = randomFrames(random, 3);
+                const framer = createFramer();
+
+                const frames = framer.push(Buffer.concat([encodeFrames(before), garbage, encodeFrames(after)]));
+
+                expectFrames(frames, [...before, ...after]);
+                expect(framer.getStats()).toEqual({ framesDecoded: 6, framingErrors: 1, bytesDiscarded: garbage.length });
+                expect(errorSpy).toHaveBeenCalledTimes(1);
+            } finally {
+                errorSpy.mockRestore();
+                logSpy.mockRestore();
+            }
+        });
+
+        it('recovers from corrupt headers in streams split at random offsets', () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+            try {
+                for (let seed = 1; seed <= 100; seed++) {
+                    const random = mulberry32(1000 + seed);
+                    const groups = Array.from({ length: randomInt(random, 2, 5) }, () => randomFrames(random, randomInt(random, 1, 4)));
+                    const garbage = groups.slice(1).map(() => Buffer.alloc(randomInt(random, 1, 24), 0xff));
+
+                    const parts: Buffer[] = [encodeFrames(groups[0])];
+                    groups.slice(1).forEach((group, index) => parts.push(garbage[index], encodeFrames(group)));
+                    const stream = Buffer.concat(parts);
+                    const framer = createFramer();
+
+                    const frames = feed(framer, splitAtRandom(random, stream, randomInt(random, 1, 40)));
+
+                    expectFrames(frames, groups.flat());
+                    expect(framer.getStats()).toEqual({
+                        framesDecoded: groups.flat().length,
+                        framingErrors: garbage.length,
+                        bytesDiscarded: garbage.reduce((total, bytes) => total + bytes.length, 0)
+                    });
+                }
+            } finally {
+                errorSpy.mockRestore();
+                logSpy.mockRestore();
+            }
+        });
+
+        it('counts one framing error per corrupt run rather than per skipped byte', () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            try {
+                const framer = createFramer();
+
+                expect(framer.push(Buffer.alloc(64, 0xff))).toEqual([]);
+                expect(framer.getStats()).toEqual({ framesDecoded: 0, framingErrors: 1, bytesDiscarded: 64 - HEADER_SIZE + 1 });
+            } finally {
+                errorSpy.mockRestore();
+            }
+        });
+    });
+});
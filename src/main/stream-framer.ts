@@ -0,0 +1,161 @@
+/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Frames the binary protocol: 8-byte header (uint32 LE length, uint16 LE type, uint16 LE route) + payload.
+ * A chunk may hold any number of frames, and headers or payloads may be split across chunks.
+ * After a corrupt header the framer slides forward one byte at a time until a valid header appears.
+ */
+
+export const HEADER_SIZE = 8;
+export const MAX_PAYLOAD_LENGTH = 8 * 1024 * 1024;
+
+export interface Frame {
+    type: number;       // Message type from the header
+    route: number;      // Route field from the header
+    payload: Buffer;    // Complete payload bytes
+}
+
+export interface FramerStats {
+    framesDecoded: number;  // Complete frames emitted
+    framingErrors: number;  // Invalid headers that forced a resync
+    bytesDiscarded: number; // Bytes skipped while resynchronising
+}
+
+export interface FramerOptions {
+    maxPayloadLength?: number;              // Largest payload accepted before a header is treated as corrupt
+    isKnownType?: (type: number) => boolean; // Rejects headers with unknown message types
+    label?: string;                          // Prefix used in log lines
+}
+
+export class StreamFramer {
+    private readonly maxPayloadLength: number;
+    private readonly isKnownType: (type: number) => boolean;
+    private readonly label: string;
+
+    private readonly header = Buffer.alloc(HEADER_SIZE);
+    private headerBytes = 0;
+    private payload: Buffer | null = null;
+    private payloadBytes = 0;
+    private type = 0;
+    private route = 0;
+
+    // Set while scanning byte by byte for the next valid header
+    private resyncing = false;
+    private resyncSkipped = 0;
+
+    private readonly stats: FramerStats = { framesDecoded: 0, framingErrors: 0, bytesDiscarded: 0 };
+
+    constructor(options: FramerOptions = {}) {
+        this.maxPayloadLength = options.maxPayloadLength ?? MAX_PAYLOAD_LENGTH;
+        this.isKnownType = options.isKnownType ?? (() => true);
+        this.label = options.label ?? '[Framer]';
+    }
+
+    // Feeds a chunk of the byte stream and returns every frame it completes
+    push(chunk: Buffer): Frame[] {
+        const frames: Frame[] = [];
+        if (!chunk || chunk.length === 0) return frames;
+
+        let offset = 0;
+        while (offset < chunk.length) {
+            if (!this.payload) {
+                const copyLen = Math.min(chunk.length - offset, HEADER_SIZE - this.headerBytes);
+                chunk.copy(this.header, this.headerBytes, offset, offset + copyLen);
+                this.headerBytes += copyLen;
+                offset += copyLen;
+
+                if (this.headerBytes < HEADER_SIZE) break;
+
+                if (!this.acceptHeader()) {
+                    // Slide the window by one byte and try again with the next byte
+                    this.header.copyWithin(0, 1);
+                    this.headerBytes = HEADER_SIZE - 1;
+                    this.stats.bytesDiscarded++;
+                    this.resyncSkipped++;
+                    continue;
+                }
+
+                if (this.resyncing) {
+                    console.log(`${this.label} Resynchronised after skipping ${this.resyncSkipped} bytes`);
+                    this.resyncing = false;
+                    this.resyncSkipped = 0;
+                }
+                continue;
+            }
+
+            const copyLen = Math.min(chunk.length - offset, this.payload.length - this.payloadBytes);
+            chunk.copy(this.payload, this.payloadBytes, offset, offset + copyLen);
+            this.payloadBytes += copyLen;
+            offset += copyLen;
+
+            if (this.payloadBytes === this.payload.length) {
+                frames.push({ type: this.type, route: this.route, payload: this.payload });
+                this.stats.framesDecoded++;
+                this.payload = null;
+                this.payloadBytes = 0;
+                this.headerBytes = 0;
+            }
+        }
+
+        return frames;
+    }
+
+    // Validates the buffered header and starts a payload; returns false when the header is corrupt
+    private acceptHeader(): boolean {
+        const length = this.header.readUInt32LE(0);
+        const type = this.header.readUInt16LE(4);
+        const route = this.header.readUInt16LE(6);
+
+        if (length === 0 || length > this.maxPayloadLength || !this.isKnownType(type)) {
+            if (!this.resyncing) {
+                console.error(`${this.label} Invalid header (type=0x${type.toString(16)}, length=${length}), resynchronising`);
+                this.stats.framingErrors++;
+                this.resyncing = true;
+            }
+            return false;
+        }
+
+        this.type = type;
+        this.route = route;
+        this.payload = Buffer.alloc(length);
+        this.payloadBytes = 0;
+        return true;
+    }
+
+    // True while a header or payload is partially buffered
+    hasPartialFrame(): boolean {
+        return this.headerBytes > 0 || this.payload !== null;
+    }
+
+    reset(): void {
+        this.header.fill(0);
+        this.headerBytes = 0;
+        this.payload = null;
+        this.payloadBytes = 0;
+        this.type = 0;
+        this.route = 0;
+        this.resyncing = false;
+        this.resyncSkipped = 0;
+    }
+
+    getStats(): FramerStats {
+        return { ...this.stats };
+    }
+}
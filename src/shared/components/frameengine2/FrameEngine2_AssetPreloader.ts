@@ -0,0 +1,239 @@
+/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { FrameLayoutConfig, PlacedElement } from './types/FrameEngine2_LayoutTypes';
+import { loadGoogleFont } from './FrameEngine2_FontLoader';
+
+/**
+ * FrameEngine2 Asset Preloader
+ *
+ * Loads the images, videos, Rive files and Google Fonts a layout references before it is shown,
+ * so the viewer can swap to a new layout in one step instead of letting assets pop in.
+ * Loads are shared and remembered for the page's lifetime; failed loads are retried next time.
+ */
+
+export type PreloadAssetKind = 'image' | 'video' | 'rive' | 'font';
+
+export interface PreloadAsset {
+    kind: PreloadAssetKind;
+    /** Resolved URL, or the font family for fonts */
+    src: string;
+    /** Element that uses the asset; unset for the background */
+    elementId?: string;
+}
+
+export interface PreloadFailure {
+    asset: PreloadAsset;
+    message: string;
+}
+
+export interface PreloadResult {
+    failures: PreloadFailure[];
+    /** Assets still loading when the timeout passed */
+    pending: PreloadAsset[];
+}
+
+// Endpoints uploaded filenames are served from
+const ASSET_ENDPOINTS: Record<Exclude<PreloadAssetKind, 'font'>, string> = {
+    image: 'images',
+    video: 'videos',
+    rive: 'rive'
+};
+
+const ELEMENT_ASSET_KINDS: Partial<Record<PlacedElement['type'], PreloadAssetKind>> = {
+    'media-image': 'image',
+    'media-video': 'video',
+    'media-rive': 'rive'
+};
+
+// Inter is the default font and is not loaded per element
+const FONT_ELEMENT_TYPES = new Set<PlacedElement['type']>(['sensor', 'text', 'timedate']);
+const DEFAULT_FONT = 'Inter';
+
+const assetLoads = new Map<string, Promise<void>>();
+const loadedAssets = new Set<string>();
+
+const getAssetKey = (asset: PreloadAsset): string => `${asset.kind}:${asset.src}`;
+
+// Files the Electron app saved with its last layout (see layout-cache.js)
+const LAYOUT_CACHE_PREFIX = 'layout-cache:';
+
+/**
+ * Resolves an uploaded filename to its content URL; blob, HTTP and layout-cache URLs pass through
+ */
+export function resolveAssetUrl(kind: Exclude<PreloadAssetKind, 'font'>, filename: string): string {
+    return (filename.startsWith('http') || filename.startsWith('blob:') || filename.startsWith(LAYOUT_CACHE_PREFIX))
+        ? filename
+        : `/api/frameengine/${ASSET_ENDPOINTS[kind]}/${filename}/content`;
+}
+
+/**
+ * Lists every asset the layout's background and elements reference, without duplicates
+ *
+ * @param layout - Layout whose active background type is scanned
+ * @param elements - Elements placed on the canvas (hidden ones included, they can be shown later)
+ * @returns Assets in the order they were found
+ */
+export function collectLayoutAssets(layout: FrameLayoutConfig, elements: PlacedElement[]): PreloadAsset[] {
+    const assets = new Map<string, PreloadAsset>();
+    const add = (asset: PreloadAsset) => {
+        const key = getAssetKey(asset);
+        if (!assets.has(key)) assets.set(key, asset);
+    };
+
+    if (layout.backgroundType === 'image' && layout.backgroundImageUrl) {
+        add({ kind: 'image', src: resolveAssetUrl('image', layout.backgroundImageUrl) });
+    } else if (layout.backgroundType === 'video' && layout.backgroundVideoUrl) {
+        add({ kind: 'video', src: resolveAssetUrl('video', layout.backgroundVideoUrl) });
+    } else if (layout.backgroundType === 'rive' && layout.riveFile) {
+        add({ kind: 'rive', src: resolveAssetUrl('rive', layout.riveFile) });
+    }
+
+    elements.forEach(element => {
+        const properties = element.properties as { filename?: string | null; fontFamily?: string };
+
+        const kind = ELEMENT_ASSET_KINDS[element.type];
+        if (kind && kind !== 'font' && properties.filename) {
+            add({ kind, src: resolveAssetUrl(kind, properties.filename), elementId: element.id });
+        }
+
+        if (FONT_ELEMENT_TYPES.has(element.type) && properties.fontFamily && properties.fontFamily !== DEFAULT_FONT) {
+            add({ kind: 'font', src: properties.fontFamily, elementId: element.id });
+        }
+    });
+
+    return Array.from(assets.values());
+}
+
+/**
+ * Whether an asset has already been loaded successfully
+ */
+export function isAssetPreloaded(asset: PreloadAsset): boolean {
+    return loadedAssets.has(getAssetKey(asset));
+}
+
+function loadImage(src: string): Promise<void> {
+    const image = new Image();
+    image.src = src;
+    return image.decode();
+}
+
+// Waits for the first frame; the browser keeps the fetched data for the element that plays it
+function loadVideo(src: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        const release = () => {
+            video.onloadeddata = null;
+            video.onerror = null;
+            video.removeAttribute('src');
+            video.load();
+        };
+
+        video.muted = true;
+        video.preload = 'auto';
+        video.onloadeddata = () => {
+            release();
+            resolve();
+        };
+        video.onerror = () => {
+            release();
+            reject(new Error(`Failed to load video: ${src}`));
+        };
+        video.src = src;
+    });
+}
+
+async function loadRive(src: string): Promise<void> {
+    const response = await fetch(src);
+    if (!response.ok) {
+        throw new Error(`Failed to load Rive file: ${src} (${response.status})`);
+    }
+    await response.arrayBuffer();
+}
+
+/**
+ * Loads a single asset, sharing the load with anyone already waiting on it
+ */
+export function preloadAsset(asset: PreloadAsset): Promise<void> {
+    const key = getAssetKey(asset);
+    const existing = assetLoads.get(key);
+    if (existing) return existing;
+
+    let load: Promise<void>;
+    switch (asset.kind) {
+        case 'image':
+            load = loadImage(asset.src).catch(() => {
+                throw new Error(`Failed to load image: ${asset.src}`);
+            });
+            break;
+        case 'video':
+            load = loadVideo(asset.src);
+            break;
+        case 'rive':
+            load = loadRive(asset.src);
+            break;
+        case 'font':
+            load = loadGoogleFont(asset.src);
+            break;
+    }
+
+    load = load.then(
+        () => {
+            loadedAssets.add(key);
+        },
+        (error) => {
+            assetLoads.delete(key);
+            throw error;
+        }
+    );
+
+    assetLoads.set(key, load);
+    return load;
+}
+
+/**
+ * Loads a set of assets, giving up waiting after a timeout
+ *
+ * @param assets - Assets to load
+ * @param timeoutMs - How long to wait before resolving with whatever is still pending
+ * @returns The assets that failed and those that had not finished in time
+ */
+export function preloadAssets(assets: PreloadAsset[], timeoutMs: number): Promise<PreloadResult> {
+    const failures: PreloadFailure[] = [];
+    const pending = new Set(assets);
+
+    const loads = assets.map(asset => preloadAsset(asset).then(
+        () => {
+            pending.delete(asset);
+        },
+        (error) => {
+            pending.delete(asset);
+            failures.push({ asset, message: error instanceof Error ? error.message : String(error) });
+        }
+    ));
+
+    return new Promise(resolve => {
+        const finish = () => {
+            clearTimeout(timer);
+            resolve({ failures: [...failures], pending: Array.from(pending) });
+        };
+        const timer = setTimeout(finish, timeoutMs);
+        Promise.all(loads).then(finish);
+    });
+}
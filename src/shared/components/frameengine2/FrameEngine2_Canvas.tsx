@@ -300,7 +300,7 @@ const FrameEngine2_Canvas = forwardRef<FrameEngine2_CanvasRef, FrameEngine2_Canv
     const colorPicker = useColorPicker();
 
     // Initialize sensor tag manager
-    const { debugData: baseDebugData, resolvedValues } = useSensorTagManager({
+    const { debugData: baseDebugData, resolvedValues, staleElementIds } = useSensorTagManager({
         layout,
         elements,
         enabled: true
@@ -669,6 +669,7 @@ const FrameEngine2_Canvas = forwardRef<FrameEngine2_CanvasRef, FrameEngine2_Canv
                             grid={grid}
                             previewMode={previewMode}
                             onRiveDiscovery={handleElementRiveDiscovery}
+                            isStale={staleElementIds.has(element.id)}
                         />
                     ))}
                 </div>
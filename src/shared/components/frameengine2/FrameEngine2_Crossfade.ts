@@ -0,0 +1,80 @@
+/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type React from 'react';
+import type { FrameLayoutConfig } from './types/FrameEngine2_LayoutTypes';
+
+/**
+ * FrameEngine2 Crossfade
+ *
+ * Layout swaps can fade out what the new layout drops and fade in what it adds. Leaving
+ * elements and backgrounds stay mounted under their old keys until the fade has finished,
+ * so nothing is reloaded for the animation.
+ */
+
+export type CrossfadeDirection = 'in' | 'out';
+
+const KEYFRAMES_ID = 'frameengine2-crossfade-keyframes';
+
+function ensureKeyframes(): void {
+    if (typeof document === 'undefined' || document.getElementById(KEYFRAMES_ID)) return;
+
+    const style = document.createElement('style');
+    style.id = KEYFRAMES_ID;
+    style.innerHTML = `
+        @keyframes frameengine2-fade-in { from { opacity: 0; } }
+        @keyframes frameengine2-fade-out { to { opacity: 0; } }
+    `;
+    document.head.appendChild(style);
+}
+
+/**
+ * Animation style for a fading layer
+ *
+ * Fading in only animates from transparent, so the layer's own opacity (e.g. stale dimming) applies
+ * once it ends; fading out holds the last frame until the layer is removed.
+ *
+ * @param fade - Direction, or undefined for no fade
+ * @param durationMs - Fade duration in milliseconds
+ * @returns Style to merge into the layer's root, or undefined when not fading
+ */
+export function getCrossfadeStyle(fade: CrossfadeDirection | undefined, durationMs: number = 0): React.CSSProperties | undefined {
+    if (!fade || durationMs <= 0) return undefined;
+
+    ensureKeyframes();
+    return {
+        animation: `frameengine2-fade-${fade} ${durationMs}ms ease-in-out ${fade === 'out' ? 'forwards' : 'backwards'}`
+    };
+}
+
+/**
+ * React key for the background: changes when the background has to be reloaded
+ */
+export function getBackgroundMountKey(layout: FrameLayoutConfig): string {
+    switch (layout.backgroundType) {
+        case 'image':
+            return `image:${layout.backgroundImageUrl ?? ''}`;
+        case 'video':
+            return `video:${layout.backgroundVideoUrl ?? ''}`;
+        case 'rive':
+            return `rive:${layout.riveFile ?? ''}`;
+        default:
+            return 'none';
+    }
+}
@@ -0,0 +1,101 @@
+/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { PlacedElement } from './types/FrameEngine2_LayoutTypes';
+
+/**
+ * FrameEngine2 Element Reconciler
+ *
+ * Merges a freshly received element list into the one already on screen so that a new
+ * rive_config only touches what changed. Unchanged elements keep their object identity
+ * (React.memo skips them), changed ones keep the identity of every unchanged property value,
+ * and an element is only remounted when its mount key (type or asset) changes.
+ */
+
+// Media elements reload from scratch when their file changes, so the file is part of the key
+const ASSET_ELEMENT_TYPES = new Set<PlacedElement['type']>(['media-image', 'media-video', 'media-rive']);
+
+/**
+ * React key for an element: stable while the element can be updated in place
+ *
+ * @param element - Placed element
+ * @returns Key that changes when the element has to be remounted
+ */
+export function getElementMountKey(element: PlacedElement): string {
+    if (ASSET_ELEMENT_TYPES.has(element.type)) {
+        const { filename } = element.properties as { filename: string | null };
+        return `${element.id}:${element.type}:${filename ?? ''}`;
+    }
+    return `${element.id}:${element.type}`;
+}
+
+function isEqualValue(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length &&
+        keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && isEqualValue(a[key], b[key]));
+}
+
+// Reuses the previous object, or the previous value of each unchanged key, wherever they are equal
+function reconcileObject<T extends Record<string, any>>(previous: T, next: T): T {
+    if (previous === next) return previous;
+
+    let changed = Object.keys(previous).length !== Object.keys(next).length;
+    const merged: Record<string, any> = {};
+
+    Object.keys(next).forEach(key => {
+        if (Object.prototype.hasOwnProperty.call(previous, key) && isEqualValue(previous[key], next[key])) {
+            merged[key] = previous[key];
+        } else {
+            merged[key] = next[key];
+            changed = true;
+        }
+    });
+
+    return changed ? merged as T : previous;
+}
+
+/**
+ * Reconciles the elements on screen with the elements of a new layout
+ *
+ * @param previous - Elements currently rendered
+ * @param next - Elements built from the new configuration
+ * @returns Element list to render; `previous` itself when nothing changed
+ */
+export function reconcileElements(previous: PlacedElement[], next: PlacedElement[]): PlacedElement[] {
+    const previousById = new Map(previous.map(element => [element.id, element]));
+
+    const reconciled = next.map(element => {
+        const existing = previousById.get(element.id);
+        if (!existing || getElementMountKey(existing) !== getElementMountKey(element)) {
+            return element;
+        }
+
+        const properties = reconcileObject(existing.properties, element.properties);
+        return reconcileObject(existing, { ...element, properties } as PlacedElement);
+    });
+
+    const unchanged = reconciled.length === previous.length &&
+        reconciled.every((element, index) => element === previous[index]);
+    return unchanged ? previous : reconciled;
+}
@@ -33,34 +33,59 @@ const COMMON_FONTS = [
 ];
 
 /**
- * Track loaded fonts to prevent duplicate loads
+ * Track font loads to prevent duplicate loads; failed loads are dropped so they can be retried
  */
 const loadedFonts = new Set<string>();
+const fontLoads = new Map<string, Promise<void>>();
 
 /**
  * Load a single Google Font
  * @param fontFamily The font family name (e.g., 'Inter', 'Open Sans')
+ * @returns Resolves once the font can be drawn, rejects if the stylesheet or font file fails to load
  */
-export const loadGoogleFont = (fontFamily: string): void => {
-    // Check if font is already loaded
-    if (loadedFonts.has(fontFamily)) {
-        return;
+export const loadGoogleFont = (fontFamily: string): Promise<void> => {
+    const existing = fontLoads.get(fontFamily);
+    if (existing) {
+        return existing;
     }
 
     const linkId = `google-font-${fontFamily.replace(/\s+/g, '-')}`;
-    if (document.getElementById(linkId)) {
-        loadedFonts.add(fontFamily);
-        return;
-    }
+    let link: HTMLLinkElement | null = null;
+
+    const stylesheetLoaded = new Promise<void>((resolve, reject) => {
+        if (document.getElementById(linkId)) {
+            // Added outside this loader; its stylesheet is already in the document
+            resolve();
+            return;
+        }
+
+        // Create link element to load the font
+        link = document.createElement('link');
+        link.id = linkId;
+        link.rel = 'stylesheet';
+        link.href = `https://fonts.googleapis.com/css2?family=${fontFamily.replace(/\s+/g, '+')}:wght@400;700&display=swap`;
+        link.onload = () => resolve();
+        link.onerror = () => reject(new Error(`Failed to load Google Font stylesheet: ${fontFamily}`));
+        document.head.appendChild(link);
+    });
+
+    // With display=swap the font file is only fetched once text uses it, so request it explicitly
+    const load = stylesheetLoaded
+        .then(() => document.fonts.load(`16px "${fontFamily}"`))
+        .then((faces) => {
+            if (faces.length === 0) {
+                throw new Error(`Google Font not available: ${fontFamily}`);
+            }
+            loadedFonts.add(fontFamily);
+        });
 
-    // Create link element to load the font
-    const link = document.createElement('link');
-    link.id = linkId;
-    link.rel = 'stylesheet';
-    link.href = `https://fonts.googleapis.com/css2?family=${fontFamily.replace(/\s+/g, '+')}:wght@400;700&display=swap`;
-    document.head.appendChild(link);
+    load.catch(() => {
+        fontLoads.delete(fontFamily);
+        link?.remove();
+    });
 
-    loadedFonts.add(fontFamily);
+    fontLoads.set(fontFamily, load);
+    return load;
 };
 
 /**
@@ -69,7 +94,9 @@ export const loadGoogleFont = (fontFamily: string): void => {
  */
 export const preloadCommonFonts = (): void => {
     COMMON_FONTS.forEach(font => {
-        loadGoogleFont(font);
+        loadGoogleFont(font).catch((error) => {
+            console.warn('[FrameEngine2_FontLoader]', error.message);
+        });
     });
 };
 
@@ -21,22 +21,31 @@
 // Note: Component names use underscore naming convention for namespace organization (FrameEngine2_*)
 // This is a deliberate architectural choice and does not violate PascalCase - the components ARE PascalCase
 
-import React, { useMemo, useCallback, useState, useEffect } from 'react';
+import React, { useMemo, useCallback, useState, useEffect, useRef } from 'react';
 import { useRive, UseRiveParameters } from '@rive-app/react-canvas';
 import type { FrameLayoutConfig } from './types/FrameEngine2_LayoutTypes';
 import type {
     DiscoveredRiveStateMachine,
     DiscoveredRiveDataBinding
 } from './types/FrameEngine2_ElementTypes';
+import type { DeviceEvent } from '../../interfaces/VirtualDisplayDataProvider';
 import {
     discoverRiveInputsAndBindings,
     applyRiveInputs,
-    applyRiveBindings
+    applyRiveBindings,
+    forwardRiveEvents
 } from './FrameEngine2_RiveDiscovery';
+import { getCrossfadeStyle, CrossfadeDirection } from './FrameEngine2_Crossfade';
+import { resolveAssetUrl } from './FrameEngine2_AssetPreloader';
 
 interface FrameEngine2_Renderer_BackgroundProps {
     layout: FrameLayoutConfig;
     onRiveDiscovery?: (machines: DiscoveredRiveStateMachine[], bindings: DiscoveredRiveDataBinding[]) => void;
+    /** Receives Rive events, state changes and load errors for the host */
+    onDeviceEvent?: (event: DeviceEvent) => void;
+    /** Fades the background in or out while layouts are swapped */
+    fade?: CrossfadeDirection;
+    fadeDuration?: number;
 }
 
 /**
@@ -54,12 +63,16 @@ interface FrameEngine2_Renderer_BackgroundProps {
  * - Error states reset when file changes (ensures new files load)
  * - Rive discovery runs asynchronously with retry logic
  */
-const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_BackgroundProps> = ({ layout, onRiveDiscovery }) => {
+const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_BackgroundProps> = ({ layout, onRiveDiscovery, onDeviceEvent, fade, fadeDuration }) => {
     const [imageError, setImageError] = useState(false);
     const [videoError, setVideoError] = useState(false);
     const [discoveredMachines, setDiscoveredMachines] = useState<DiscoveredRiveStateMachine[]>([]);
     const [discoveredBindings, setDiscoveredBindings] = useState<DiscoveredRiveDataBinding[]>([]);
 
+    // Read through a ref so a new callback doesn't recreate the Rive instance
+    const onDeviceEventRef = useRef(onDeviceEvent);
+    onDeviceEventRef.current = onDeviceEvent;
+
     /**
      * Determine background type (image, video, rive, or none)
      */
@@ -83,35 +96,29 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
 
     /**
      * Resolve image URL - convert local filenames to API endpoints
-     * Pass through blob URLs and HTTP URLs unchanged
+     * Pass through blob, HTTP and layout-cache URLs unchanged
      */
     const resolvedImageUrl = useMemo(() => {
         if (!layout.backgroundImageUrl) return undefined;
-        return (layout.backgroundImageUrl.startsWith('http') || layout.backgroundImageUrl.startsWith('blob:'))
-            ? layout.backgroundImageUrl
-            : `/api/frameengine/images/${layout.backgroundImageUrl}/content`;
+        return resolveAssetUrl('image', layout.backgroundImageUrl);
     }, [layout.backgroundImageUrl]);
 
     /**
      * Resolve video URL - convert local filenames to API endpoints
-     * Pass through blob URLs and HTTP URLs unchanged
+     * Pass through blob, HTTP and layout-cache URLs unchanged
      */
     const resolvedVideoUrl = useMemo(() => {
         if (!layout.backgroundVideoUrl) return undefined;
-        return (layout.backgroundVideoUrl.startsWith('http') || layout.backgroundVideoUrl.startsWith('blob:'))
-            ? layout.backgroundVideoUrl
-            : `/api/frameengine/videos/${layout.backgroundVideoUrl}/content`;
+        return resolveAssetUrl('video', layout.backgroundVideoUrl);
     }, [layout.backgroundVideoUrl]);
 
     /**
      * Resolve Rive URL - convert local filenames to API endpoints
-     * Pass through blob URLs and HTTP URLs unchanged
+     * Pass through blob, HTTP and layout-cache URLs unchanged
      */
     const resolvedRiveUrl = useMemo(() => {
         if (!layout.riveFile) return undefined;
-        return (layout.riveFile.startsWith('http') || layout.riveFile.startsWith('blob:'))
-            ? layout.riveFile
-            : `/api/frameengine/rive/${layout.riveFile}/content`;
+        return resolveAssetUrl('rive', layout.riveFile);
     }, [layout.riveFile]);
 
     /**
@@ -178,6 +185,11 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
         zIndex: 0
     }), [layout.width, layout.height, layout.backgroundOpacity]);
 
+    /**
+     * Crossfade animation, merged into whichever element renders the background
+     */
+    const fadeStyle = useMemo(() => getCrossfadeStyle(fade, fadeDuration), [fade, fadeDuration]);
+
     /**
      * Rive configuration - memoized
      * Only created when Rive background is active
@@ -191,7 +203,13 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
             autoplay: true,
             autoBind: true, // Required for View Model data bindings
             stateMachines: layout.riveStateMachine ? [layout.riveStateMachine] : undefined,
-            automaticallyHandleEvents: true
+            automaticallyHandleEvents: true,
+            onLoadError: () => {
+                onDeviceEventRef.current?.({
+                    type: 'render_error',
+                    data: { source: 'background', message: `Failed to load background Rive file: ${resolvedRiveUrl}` }
+                });
+            }
         };
     }, [backgroundType, resolvedRiveUrl, layout.riveStateMachine]);
 
@@ -210,7 +228,11 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
     const handleImageError = useCallback(() => {
         console.warn('[FrameEngine2_Renderer_Background] Failed to load background image:', resolvedImageUrl);
         setImageError(true);
-    }, [resolvedImageUrl]);
+        onDeviceEvent?.({
+            type: 'render_error',
+            data: { source: 'background', message: `Failed to load background image: ${resolvedImageUrl}` }
+        });
+    }, [resolvedImageUrl, onDeviceEvent]);
 
     /**
      * Video error handler - memoized
@@ -218,7 +240,11 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
     const handleVideoError = useCallback(() => {
         console.warn('[FrameEngine2_Renderer_Background] Failed to load background video:', resolvedVideoUrl);
         setVideoError(true);
-    }, [resolvedVideoUrl]);
+        onDeviceEvent?.({
+            type: 'render_error',
+            data: { source: 'background', message: `Failed to load background video: ${resolvedVideoUrl}` }
+        });
+    }, [resolvedVideoUrl, onDeviceEvent]);
 
     /**
      * Discovery effect - triggers when Rive file changes
@@ -260,6 +286,15 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
         };
     }, [rive, backgroundType, resolvedRiveUrl, onRiveDiscovery]);
 
+    /**
+     * Forward Rive events and state changes to the host
+     */
+    useEffect(() => {
+        if (!rive || backgroundType !== 'rive' || !onDeviceEvent) return;
+
+        return forwardRiveEvents(rive, onDeviceEvent);
+    }, [rive, backgroundType, onDeviceEvent]);
+
     /**
      * Apply state machine inputs when layout.riveInputs changes
      */
@@ -286,7 +321,7 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
             <img
                 src={resolvedImageUrl}
                 alt="Background"
-                style={imageStyles}
+                style={{ ...imageStyles, ...fadeStyle }}
                 onError={handleImageError}
             />
         );
@@ -296,7 +331,7 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
         return (
             <video
                 src={resolvedVideoUrl}
-                style={videoStyles}
+                style={{ ...videoStyles, ...fadeStyle }}
                 loop={layout.videoLoop !== false}
                 muted={layout.videoMuted !== false}
                 autoPlay={layout.videoAutoplay !== false}
@@ -308,7 +343,7 @@ const FrameEngine2_Renderer_Background: React.FC<FrameEngine2_Renderer_Backgroun
 
     if (backgroundType === 'rive' && resolvedRiveUrl && riveParams) {
         return (
-            <div style={riveContainerStyles} key={resolvedRiveUrl}>
+            <div style={{ ...riveContainerStyles, ...fadeStyle }} key={resolvedRiveUrl}>
                 <RiveComponent style={{
                     width: layout.width,
                     height: layout.height,
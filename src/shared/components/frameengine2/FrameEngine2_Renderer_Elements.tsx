@@ -25,8 +25,11 @@ import React, { useState, useRef, useMemo, useCallback, useEffect, lazy, Suspens
 import type { PlacedElement, GridSettings } from './types/FrameEngine2_LayoutTypes';
 import type {
     DiscoveredRiveStateMachine,
-    DiscoveredRiveDataBinding
+    DiscoveredRiveDataBinding,
+    StaleDisplayMode
 } from './types/FrameEngine2_ElementTypes';
+import type { DeviceEvent } from '../../interfaces/VirtualDisplayDataProvider';
+import { getCrossfadeStyle, CrossfadeDirection } from './FrameEngine2_Crossfade';
 import FrameEngine2_Element_Sensor from './elements/FrameEngine2_Element_Sensor';
 import FrameEngine2_Element_Text from './elements/FrameEngine2_Element_Text';
 import FrameEngine2_Element_TimeDate from './elements/FrameEngine2_Element_TimeDate';
@@ -38,6 +41,27 @@ const FrameEngine2_Element_Gauge = lazy(() => import('./elements/FrameEngine2_El
 const FrameEngine2_Element_MediaRive = lazy(() => import('./elements/FrameEngine2_Element_MediaRive')); // Uses Rive library (~150KB)
 const FrameEngine2_Element_ECG = lazy(() => import('./elements/FrameEngine2_Element_ECG')); // Heavy waveform rendering
 
+// Opacity of elements shown with staleDisplay 'dim'
+const STALE_OPACITY = 0.35;
+
+// Warning badge for elements shown with staleDisplay 'badge'
+const STALE_BADGE_STYLE: React.CSSProperties = {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    width: 16,
+    height: 16,
+    borderRadius: '50%',
+    backgroundColor: '#ffaa00',
+    color: '#000000',
+    fontSize: '11px',
+    fontWeight: 'bold',
+    lineHeight: '16px',
+    textAlign: 'center',
+    pointerEvents: 'none',
+    zIndex: 1
+};
+
 // Lazy load Moveable (120KB) - only needed when element is selected
 const Moveable = lazy(() => import('react-moveable'));
 
@@ -87,6 +111,18 @@ interface FrameEngine2_Renderer_ElementsProps {
 
     /** Callback for Rive discovery (MediaRive elements only) */
     onRiveDiscovery?: (elementId: string, machines: DiscoveredRiveStateMachine[], bindings: DiscoveredRiveDataBinding[]) => void;
+
+    /** Receives device events for the host (MediaRive elements only) */
+    onDeviceEvent?: (event: DeviceEvent) => void;
+
+    /** Whether the element's sensor data has gone stale (see useSensorTagManager) */
+    isStale?: boolean;
+
+    /** Fades the element in or out while layouts are swapped; fading out also ignores pointer input */
+    fade?: CrossfadeDirection;
+
+    /** Fade duration in milliseconds */
+    fadeDuration?: number;
 }
 
 /**
@@ -103,11 +139,34 @@ const FrameEngine2_Renderer_Elements: React.FC<FrameEngine2_Renderer_ElementsPro
     elementPadding = 4,
     grid,
     previewMode = false,
-    onRiveDiscovery
+    onRiveDiscovery,
+    onDeviceEvent,
+    isStale = false,
+    fade,
+    fadeDuration
 }) => {
     // Hover state for border highlighting
     const [isHovered, setIsHovered] = useState(false);
 
+    /**
+     * Stale state - 'dashes' only applies to elements that display a value, others fall back to dimming
+     */
+    const staleDisplay: StaleDisplayMode = isStale ? (element.properties.staleDisplay ?? 'dim') : 'none';
+    const showsDashes = staleDisplay === 'dashes' && (element.type === 'sensor' || element.type === 'gauge');
+    const isDimmed = staleDisplay === 'dim' || (staleDisplay === 'dashes' && !showsDashes);
+
+    /**
+     * Sensor elements show dashes by receiving '--' in place of their stale value
+     */
+    const elementResolvedValues = useMemo(() => {
+        if (!showsDashes || element.type !== 'sensor') return resolvedValues;
+
+        const tag = element.properties.sensorTag;
+        if (!tag || !resolvedValues[tag]) return resolvedValues;
+
+        return { ...resolvedValues, [tag]: { ...resolvedValues[tag], value: '--', unit: '' } };
+    }, [showsDashes, element.type, element.properties, resolvedValues]);
+
     // Ref for Moveable target element
     const targetRef = useRef<HTMLDivElement>(null);
 
@@ -125,7 +184,7 @@ const FrameEngine2_Renderer_Elements: React.FC<FrameEngine2_Renderer_ElementsPro
                 return (
                     <FrameEngine2_Element_Sensor
                         properties={element.properties}
-                        resolvedValues={resolvedValues}
+                        resolvedValues={elementResolvedValues}
                         showPlaceholders={showPlaceholders}
                         elementPadding={elementPadding}
                         width={element.width}
@@ -153,6 +212,7 @@ const FrameEngine2_Renderer_Elements: React.FC<FrameEngine2_Renderer_ElementsPro
                             elementPadding={elementPadding}
                             width={element.width}
                             height={element.height}
+                            showDashes={showsDashes}
                         />
                     </Suspense>
                 );
@@ -194,6 +254,7 @@ const FrameEngine2_Renderer_Elements: React.FC<FrameEngine2_Renderer_ElementsPro
                             width={element.width}
                             height={element.height}
                             onRiveDiscovery={onRiveDiscovery}
+                            onDeviceEvent={onDeviceEvent}
                         />
                     </Suspense>
                 );
@@ -231,7 +292,7 @@ const FrameEngine2_Renderer_Elements: React.FC<FrameEngine2_Renderer_ElementsPro
                     </div>
                 );
         }
-    }, [element.type, element.properties, element.width, element.height, element.id, resolvedValues, showPlaceholders, elementPadding, onRiveDiscovery]);
+    }, [element.type, element.properties, element.width, element.height, element.id, resolvedValues, elementResolvedValues, showsDashes, showPlaceholders, elementPadding, onRiveDiscovery, onDeviceEvent]);
 
     /**
      * Handle click - select element
@@ -288,11 +349,13 @@ const FrameEngine2_Renderer_Elements: React.FC<FrameEngine2_Renderer_ElementsPro
             border,
             boxSizing: 'border-box' as const,
             transition: 'border-color 0.15s ease',
-            pointerEvents: (element.locked || previewMode ? 'none' : 'auto') as 'none' | 'auto',
+            pointerEvents: (element.locked || previewMode || fade === 'out' ? 'none' : 'auto') as 'none' | 'auto',
             zIndex: element.zIndex,
-            userSelect: 'none' as const
+            userSelect: 'none' as const,
+            opacity: isDimmed ? STALE_OPACITY : undefined,
+            ...getCrossfadeStyle(fade, fadeDuration)
         };
-    }, [element.x, element.y, element.width, element.height, element.rotation, element.zIndex, element.locked, isSelected, isHovered, grid?.showOutlines, previewMode]);
+    }, [element.x, element.y, element.width, element.height, element.rotation, element.zIndex, element.locked, isSelected, isHovered, grid?.showOutlines, previewMode, isDimmed, fade, fadeDuration]);
 
     return (
         <>
@@ -304,6 +367,9 @@ const FrameEngine2_Renderer_Elements: React.FC<FrameEngine2_Renderer_ElementsPro
                 style={elementWrapperStyle}
             >
                 {renderedElement}
+                {staleDisplay === 'badge' && (
+                    <div style={STALE_BADGE_STYLE} title="No recent data">!</div>
+                )}
             </div>
 
             {/* Moveable Controls - Only render when selected, not locked, and not in preview mode */}
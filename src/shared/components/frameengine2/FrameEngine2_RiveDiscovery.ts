@@ -24,11 +24,13 @@
  * Extracted from old FrameEngine_RiveCore.tsx for reusability.
  */
 
+import { EventType } from '@rive-app/react-canvas';
 import type {
     DiscoveredRiveInput,
     DiscoveredRiveStateMachine,
     DiscoveredRiveDataBinding
 } from './types/FrameEngine2_ElementTypes';
+import type { DeviceEvent } from '../../interfaces/VirtualDisplayDataProvider';
 
 export interface RiveDiscoveryResult {
     machines: DiscoveredRiveStateMachine[];
@@ -316,3 +318,41 @@ function convertHexToARGB(hexColor: string): number {
     // ARGB format: alpha (0xFF) in highest byte
     return (0xFF << 24) | (r << 16) | (g << 8) | b;
 }
+
+/**
+ * Forwards Rive events and state machine state changes as device events
+ *
+ * @param rive - The Rive instance from useRive hook
+ * @param onDeviceEvent - Receives rive_event and state_change events
+ * @param elementId - Element the Rive instance belongs to (omitted for the background)
+ * @returns Function that removes the listeners
+ */
+export function forwardRiveEvents(
+    rive: any,
+    onDeviceEvent: (event: DeviceEvent) => void,
+    elementId?: string
+): () => void {
+    const handleRiveEvent = (event: any) => {
+        onDeviceEvent({
+            type: 'rive_event',
+            elementId,
+            data: { name: event.data?.name, properties: event.data?.properties ?? {} }
+        });
+    };
+
+    const handleStateChange = (event: any) => {
+        onDeviceEvent({
+            type: 'state_change',
+            elementId,
+            data: { states: event.data ?? [] }
+        });
+    };
+
+    rive.on(EventType.RiveEvent, handleRiveEvent);
+    rive.on(EventType.StateChange, handleStateChange);
+
+    return () => {
+        rive.off(EventType.RiveEvent, handleRiveEvent);
+        rive.off(EventType.StateChange, handleStateChange);
+    };
+}
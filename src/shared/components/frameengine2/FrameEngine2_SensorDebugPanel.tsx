@@ -149,6 +149,20 @@ const FrameEngine2_SensorDebugPanel: React.FC<FrameEngine2_SensorDebugPanelProps
                                                 ⚠️
                                             </span>
                                         )}
+                                        {input.stale && (
+                                            <span
+                                                style={{
+                                                    color: '#ff5555',
+                                                    fontSize: '9px',
+                                                    border: '1px solid currentColor',
+                                                    borderRadius: '3px',
+                                                    padding: '1px 4px'
+                                                }}
+                                                title="No update within the stale timeout"
+                                            >
+                                                STALE
+                                            </span>
+                                        )}
                                     </div>
                                     <div
                                         style={{
@@ -332,6 +346,11 @@ const FrameEngine2_SensorDebugPanel: React.FC<FrameEngine2_SensorDebugPanelProps
                         {stats.orphanedTags} orphan{stats.orphanedTags !== 1 ? 's' : ''} |{' '}
                     </span>
                 )}
+                {stats.staleTags > 0 && (
+                    <span style={{ color: '#ff5555' }}>
+                        {stats.staleTags} stale |{' '}
+                    </span>
+                )}
                 {stats.updateRate} updates/sec
             </div>
         </div>
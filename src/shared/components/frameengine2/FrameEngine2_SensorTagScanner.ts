@@ -0,0 +1,120 @@
+/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { FrameLayoutConfig, PlacedElement } from './types/FrameEngine2_LayoutTypes';
+import type { SensorTagOutput, SensorTagTarget } from './types/FrameEngine2_SensorTypes';
+
+/**
+ * FrameEngine2 Sensor Tag Scanner
+ *
+ * Finds every sensor tag a layout binds: sensor/gauge sensorTag properties, media-rive
+ * element inputs/bindings and background Rive inputs/bindings.
+ * Shared by useSensorTagManager and data providers that need to know which tags to feed.
+ */
+
+/**
+ * Scans the layout and elements for sensor tag usage
+ *
+ * @param layout - Layout whose background Rive inputs/bindings are scanned
+ * @param elements - Elements placed on the canvas
+ * @returns Map of tag to the targets that consume it
+ */
+export function scanSensorTagOutputs(
+    layout: Pick<FrameLayoutConfig, 'riveInputs' | 'riveBindings'>,
+    elements: PlacedElement[]
+): Map<string, SensorTagOutput> {
+    const newOutputs = new Map<string, SensorTagOutput>();
+
+    /**
+     * Helper to add an output target
+     */
+    const addTarget = (tag: string, target: SensorTagTarget) => {
+        if (!newOutputs.has(tag)) {
+            newOutputs.set(tag, { tag, targets: [] });
+        }
+        newOutputs.get(tag)!.targets.push(target);
+    };
+
+    // Scan elements for sensor tags
+    elements.forEach(element => {
+        // Type guard: Check for direct sensorTag property (sensor and gauge elements)
+        if ((element.type === 'sensor' || element.type === 'gauge') && element.properties.sensorTag) {
+            const tag = element.properties.sensorTag;
+            addTarget(tag, {
+                type: 'element-property',
+                elementId: element.id,
+                elementType: element.type,
+                propertyPath: 'sensorTag',
+                value: undefined
+            });
+        }
+
+        // Scan media-rive elements for Rive inputs/bindings
+        if (element.type === 'media-rive') {
+            // Scan Rive inputs
+            if (element.properties.riveInputs) {
+                Object.keys(element.properties.riveInputs).forEach(inputName => {
+                    addTarget(inputName, {
+                        type: 'element-rive-input',
+                        elementId: element.id,
+                        elementType: element.type,
+                        propertyPath: `riveInputs.${inputName}`,
+                        value: undefined
+                    });
+                });
+            }
+
+            // Scan Rive bindings
+            if (element.properties.riveBindings) {
+                Object.keys(element.properties.riveBindings).forEach(bindingName => {
+                    addTarget(bindingName, {
+                        type: 'element-rive-binding',
+                        elementId: element.id,
+                        elementType: element.type,
+                        propertyPath: `riveBindings.${bindingName}`,
+                        value: undefined
+                    });
+                });
+            }
+        }
+    });
+
+    // Scan background Rive inputs/bindings
+    if (layout.riveInputs) {
+        Object.keys(layout.riveInputs).forEach(inputName => {
+            addTarget(inputName, {
+                type: 'background-rive-input',
+                propertyPath: `riveInputs.${inputName}`,
+                value: undefined
+            });
+        });
+    }
+
+    if (layout.riveBindings) {
+        Object.keys(layout.riveBindings).forEach(bindingName => {
+            addTarget(bindingName, {
+                type: 'background-rive-binding',
+                propertyPath: `riveBindings.${bindingName}`,
+                value: undefined
+            });
+        });
+    }
+
+    return newOutputs;
+}
@@ -38,6 +38,9 @@ interface FrameEngine2_Element_GaugeProps {
 
     /** Element height */
     height: number;
+
+    /** Show "--" instead of the value while the sensor data is stale */
+    showDashes?: boolean;
 }
 
 /**
@@ -48,7 +51,8 @@ const FrameEngine2_Element_Gauge: React.FC<FrameEngine2_Element_GaugeProps> = ({
     properties,
     resolvedValues,
     width,
-    height
+    height,
+    showDashes = false
 }) => {
     // Extract properties with defaults
     const sensorTag = properties.sensorTag || '';
@@ -118,7 +122,9 @@ const FrameEngine2_Element_Gauge: React.FC<FrameEngine2_Element_GaugeProps> = ({
                 innerRadius={innerRadius}
                 outerRadius={outerRadius}
                 cornerRadius={cornerRadius}
-                text={showValue ? (params: { value: number | null }) => `${params.value ?? 0}${valueLabel}` : () => ''}
+                text={showValue
+                    ? (params: { value: number | null }) => (showDashes ? '--' : `${params.value ?? 0}${valueLabel}`)
+                    : () => ''}
                 sx={{
                     '& .MuiGauge-valueArc': {
                         fill: gaugeColor
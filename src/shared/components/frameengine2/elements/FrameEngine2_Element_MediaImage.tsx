@@ -18,6 +18,7 @@
  */
 
 import React, { useMemo, useCallback, useState, useEffect } from 'react';
+import { resolveAssetUrl } from '../FrameEngine2_AssetPreloader';
 
 /**
  * Props for the MediaImage element component
@@ -59,13 +60,11 @@ const FrameEngine2_Element_MediaImage: React.FC<MediaImageElementProps> = ({
 
     /**
      * Resolve image URL - convert filenames to API endpoints
-     * Pass through blob URLs and HTTP URLs unchanged
+     * Pass through blob, HTTP and layout-cache URLs unchanged
      */
     const resolvedImageUrl = useMemo(() => {
         if (!filename) return undefined;
-        return (filename.startsWith('http') || filename.startsWith('blob:'))
-            ? filename
-            : `/api/frameengine/images/${filename}/content`;
+        return resolveAssetUrl('image', filename);
     }, [filename]);
 
     /**
@@ -17,17 +17,20 @@
  * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import React, { useMemo, useEffect, useState } from 'react';
+import React, { useMemo, useEffect, useState, useRef } from 'react';
 import { useRive, UseRiveParameters } from '@rive-app/react-canvas';
 import type {
     DiscoveredRiveStateMachine,
     DiscoveredRiveDataBinding
 } from '../types/FrameEngine2_ElementTypes';
+import type { DeviceEvent } from '../../../interfaces/VirtualDisplayDataProvider';
 import {
     discoverRiveInputsAndBindings,
     applyRiveInputs,
-    applyRiveBindings
+    applyRiveBindings,
+    forwardRiveEvents
 } from '../FrameEngine2_RiveDiscovery';
+import { resolveAssetUrl } from '../FrameEngine2_AssetPreloader';
 
 /**
  * Props for the MediaRive element component
@@ -53,6 +56,9 @@ interface MediaRiveElementProps {
 
     /** Rive discovery callback */
     onRiveDiscovery?: (elementId: string, machines: DiscoveredRiveStateMachine[], bindings: DiscoveredRiveDataBinding[]) => void;
+
+    /** Receives Rive events, state changes and load errors for the host */
+    onDeviceEvent?: (event: DeviceEvent) => void;
 }
 
 /**
@@ -74,7 +80,8 @@ const FrameEngine2_Element_MediaRive: React.FC<MediaRiveElementProps> = ({
     properties,
     width,
     height,
-    onRiveDiscovery
+    onRiveDiscovery,
+    onDeviceEvent
 }) => {
     const {
         filename = null,
@@ -88,15 +95,17 @@ const FrameEngine2_Element_MediaRive: React.FC<MediaRiveElementProps> = ({
     const [discoveredMachines, setDiscoveredMachines] = useState<DiscoveredRiveStateMachine[]>([]);
     const [discoveredBindings, setDiscoveredBindings] = useState<DiscoveredRiveDataBinding[]>([]);
 
+    // Read through a ref so a new callback doesn't recreate the Rive instance
+    const onDeviceEventRef = useRef(onDeviceEvent);
+    onDeviceEventRef.current = onDeviceEvent;
+
     /**
      * Resolve Rive URL - convert filenames to API endpoints
-     * Pass through blob URLs and HTTP URLs unchanged
+     * Pass through blob, HTTP and layout-cache URLs unchanged
      */
     const resolvedRiveUrl = useMemo(() => {
         if (!filename) return undefined;
-        return (filename.startsWith('http') || filename.startsWith('blob:'))
-            ? filename
-            : `/api/frameengine/rive/${filename}/content`;
+        return resolveAssetUrl('rive', filename);
     }, [filename]);
 
     /**
@@ -111,9 +120,16 @@ const FrameEngine2_Element_MediaRive: React.FC<MediaRiveElementProps> = ({
             autoplay,
             autoBind: true, // Required for View Model data bindings
             stateMachines: riveStateMachine ? [riveStateMachine] : undefined,
-            automaticallyHandleEvents: true
+            automaticallyHandleEvents: true,
+            onLoadError: () => {
+                onDeviceEventRef.current?.({
+                    type: 'render_error',
+                    elementId,
+                    data: { message: `Failed to load Rive file: ${resolvedRiveUrl}` }
+                });
+            }
         };
-    }, [resolvedRiveUrl, autoplay, riveStateMachine]);
+    }, [resolvedRiveUrl, autoplay, riveStateMachine, elementId]);
 
     /**
      * Rive hook - only initialized when needed
@@ -192,6 +208,15 @@ const FrameEngine2_Element_MediaRive: React.FC<MediaRiveElementProps> = ({
         };
     }, [rive, resolvedRiveUrl, elementId, onRiveDiscovery]);
 
+    /**
+     * Forward Rive events and state changes to the host
+     */
+    useEffect(() => {
+        if (!rive || !onDeviceEvent) return;
+
+        return forwardRiveEvents(rive, onDeviceEvent, elementId);
+    }, [rive, onDeviceEvent, elementId]);
+
     /**
      * Apply state machine inputs when riveInputs changes
      */
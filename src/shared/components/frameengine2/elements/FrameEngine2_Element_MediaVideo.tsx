@@ -18,6 +18,7 @@
  */
 
 import React, { useMemo, useCallback, useState, useEffect } from 'react';
+import { resolveAssetUrl } from '../FrameEngine2_AssetPreloader';
 
 /**
  * Props for the MediaVideo element component
@@ -65,13 +66,11 @@ const FrameEngine2_Element_MediaVideo: React.FC<MediaVideoElementProps> = ({
 
     /**
      * Resolve video URL - convert filenames to API endpoints
-     * Pass through blob URLs and HTTP URLs unchanged
+     * Pass through blob, HTTP and layout-cache URLs unchanged
      */
     const resolvedVideoUrl = useMemo(() => {
         if (!filename) return undefined;
-        return (filename.startsWith('http') || filename.startsWith('blob:'))
-            ? filename
-            : `/api/frameengine/videos/${filename}/content`;
+        return resolveAssetUrl('video', filename);
     }, [filename]);
 
     /**
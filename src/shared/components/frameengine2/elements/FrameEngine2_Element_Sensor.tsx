@@ -112,7 +112,9 @@ const FrameEngine2_Element_Sensor: React.FC<SensorElementProps> = ({
     // Load Google Font when needed
     useEffect(() => {
         if (fontFamily && fontFamily !== 'Inter') {
-            loadGoogleFont(fontFamily);
+            loadGoogleFont(fontFamily).catch((error) => {
+                console.warn('[FrameEngine2_Element_Sensor]', error.message);
+            });
         }
     }, [fontFamily]);
 
@@ -89,7 +89,9 @@ const FrameEngine2_Element_Text: React.FC<TextElementProps> = ({
     // Load Google Font when needed
     useEffect(() => {
         if (fontFamily && fontFamily !== 'Inter') {
-            loadGoogleFont(fontFamily);
+            loadGoogleFont(fontFamily).catch((error) => {
+                console.warn('[FrameEngine2_Element_Text]', error.message);
+            });
         }
     }, [fontFamily]);
 
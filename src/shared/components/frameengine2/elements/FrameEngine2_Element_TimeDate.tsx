@@ -91,7 +91,9 @@ const FrameEngine2_Element_TimeDate: React.FC<TimeDateElementProps> = ({
     // Load Google Font when needed
     useEffect(() => {
         if (fontFamily && fontFamily !== 'Inter') {
-            loadGoogleFont(fontFamily);
+            loadGoogleFont(fontFamily).catch((error) => {
+                console.warn('[FrameEngine2_Element_TimeDate]', error.message);
+            });
         }
     }, [fontFamily]);
 
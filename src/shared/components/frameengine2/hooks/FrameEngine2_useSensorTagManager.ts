@@ -21,12 +21,51 @@ import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import type { FrameLayoutConfig, PlacedElement } from '../types/FrameEngine2_LayoutTypes';
 import type {
     SensorTagInput,
-    SensorTagOutput,
-    SensorTagTarget,
     SensorTagRegistry,
     SensorDebugData,
     SensorTagStats
 } from '../types/FrameEngine2_SensorTypes';
+import { scanSensorTagOutputs } from '../FrameEngine2_SensorTagScanner';
+
+// How often live tags are checked against their stale timeouts
+const STALE_CHECK_INTERVAL_MS = 1000;
+
+interface StalenessState {
+    tags: Set<string>;
+    elementIds: Set<string>;
+}
+
+const sameSet = (a: Set<string>, b: Set<string>) => a.size === b.size && Array.from(a).every(item => b.has(item));
+
+/**
+ * Find live tags, and the elements bound to them, that have gone longer than their timeout without an update.
+ * Timeouts resolve as element staleTimeout > layout sensorStaleTimeouts[tag] > layout staleTimeout; 0 disables.
+ */
+function findStale(registry: SensorTagRegistry, layout: FrameLayoutConfig, elements: PlacedElement[], now: number): StalenessState {
+    const settings = layout.canvasSettings;
+    const tagTimeout = (tag: string) => settings?.sensorStaleTimeouts?.[tag] ?? settings?.staleTimeout ?? 0;
+    const isPast = (input: SensorTagInput | undefined, timeoutSeconds: number) =>
+        !!input && input.source === 'live' && timeoutSeconds > 0 && now - input.lastUpdate > timeoutSeconds * 1000;
+
+    const tags = new Set<string>();
+    registry.inputs.forEach((input, tag) => {
+        if (isPast(input, tagTimeout(tag))) tags.add(tag);
+    });
+
+    const elementTimeouts = new Map(elements.map(element => [element.id, element.properties.staleTimeout]));
+    const elementIds = new Set<string>();
+    registry.outputs.forEach((output, tag) => {
+        const input = registry.inputs.get(tag);
+        output.targets.forEach(target => {
+            if (!target.elementId) return;
+            if (isPast(input, elementTimeouts.get(target.elementId) ?? tagTimeout(tag))) {
+                elementIds.add(target.elementId);
+            }
+        });
+    });
+
+    return { tags, elementIds };
+}
 
 /**
  * Parameters for the useSensorTagManager hook
@@ -52,6 +91,12 @@ export interface UseSensorTagManagerResult {
     /** Resolved sensor values (Live > Test hierarchy applied) */
     resolvedValues: Record<string, any>;
 
+    /** Live tags past their stale timeout */
+    staleTags: Set<string>;
+
+    /** Elements bound to a tag that is past the element's (or the tag's) stale timeout */
+    staleElementIds: Set<string>;
+
     /** Update a sensor tag value */
     updateSensor: (tag: string, value: any) => void;
 
@@ -73,7 +118,8 @@ export interface UseSensorTagManagerResult {
  * 2. Builds registry of inputs (data coming in) and outputs (where it goes)
  * 3. Processes sensorTestValues to populate test data
  * 4. Tracks update rates
- * 5. Provides debug data for visualization
+ * 5. Flags live tags and elements whose data has gone stale
+ * 6. Provides debug data for visualization
  *
  * @param params - Hook parameters
  * @returns Sensor tag manager interface
@@ -95,88 +141,18 @@ export function useSensorTagManager(params: UseSensorTagManagerParams): UseSenso
     // Scan counter to force re-scan when needed
     const [scanVersion, setScanVersion] = useState<number>(0);
 
+    // Staleness tracking
+    const [staleness, setStaleness] = useState<StalenessState>({ tags: new Set(), elementIds: new Set() });
+    const registryRef = useRef<SensorTagRegistry>(registry);
+    registryRef.current = registry;
+
     /**
      * Scan the layout and elements for sensor tag usage and build the outputs registry
      */
     const scanForSensorTags = useCallback(() => {
         if (!enabled) return;
 
-        const newOutputs = new Map<string, SensorTagOutput>();
-
-        /**
-         * Helper to add an output target
-         */
-        const addTarget = (tag: string, target: SensorTagTarget) => {
-            if (!newOutputs.has(tag)) {
-                newOutputs.set(tag, { tag, targets: [] });
-            }
-            newOutputs.get(tag)!.targets.push(target);
-        };
-
-        // Scan elements for sensor tags
-        elements.forEach(element => {
-            // Type guard: Check for direct sensorTag property (sensor and gauge elements)
-            if ((element.type === 'sensor' || element.type === 'gauge') && element.properties.sensorTag) {
-                const tag = element.properties.sensorTag;
-                addTarget(tag, {
-                    type: 'element-property',
-                    elementId: element.id,
-                    elementType: element.type,
-                    propertyPath: 'sensorTag',
-                    value: undefined
-                });
-            }
-
-            // Scan media-rive elements for Rive inputs/bindings
-            if (element.type === 'media-rive') {
-                // Scan Rive inputs
-                if (element.properties.riveInputs) {
-                    Object.keys(element.properties.riveInputs).forEach(inputName => {
-                        addTarget(inputName, {
-                            type: 'element-rive-input',
-                            elementId: element.id,
-                            elementType: element.type,
-                            propertyPath: `riveInputs.${inputName}`,
-                            value: undefined
-                        });
-                    });
-                }
-
-                // Scan Rive bindings
-                if (element.properties.riveBindings) {
-                    Object.keys(element.properties.riveBindings).forEach(bindingName => {
-                        addTarget(bindingName, {
-                            type: 'element-rive-binding',
-                            elementId: element.id,
-                            elementType: element.type,
-                            propertyPath: `riveBindings.${bindingName}`,
-                            value: undefined
-                        });
-                    });
-                }
-            }
-        });
-
-        // Scan background Rive inputs/bindings
-        if (layout.riveInputs) {
-            Object.keys(layout.riveInputs).forEach(inputName => {
-                addTarget(inputName, {
-                    type: 'background-rive-input',
-                    propertyPath: `riveInputs.${inputName}`,
-                    value: undefined
-                });
-            });
-        }
-
-        if (layout.riveBindings) {
-            Object.keys(layout.riveBindings).forEach(bindingName => {
-                addTarget(bindingName, {
-                    type: 'background-rive-binding',
-                    propertyPath: `riveBindings.${bindingName}`,
-                    value: undefined
-                });
-            });
-        }
+        const newOutputs = scanSensorTagOutputs(layout, elements);
 
         // Update registry with new outputs
         setRegistry(prev => ({
@@ -295,6 +271,30 @@ export function useSensorTagManager(params: UseSensorTagManagerParams): UseSenso
         return () => clearInterval(interval);
     }, [enabled]);
 
+    /**
+     * Recompute which tags and elements are stale; state only changes when the sets do
+     */
+    const checkStaleness = useCallback(() => {
+        const next = findStale(registryRef.current, layout, elements, Date.now());
+        setStaleness(prev => (
+            sameSet(prev.tags, next.tags) && sameSet(prev.elementIds, next.elementIds) ? prev : next
+        ));
+    }, [layout, elements]);
+
+    /**
+     * Updates clear staleness straight away; timeouts are noticed by the periodic check
+     */
+    useEffect(() => {
+        checkStaleness();
+    }, [registry, checkStaleness]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const interval = setInterval(checkStaleness, STALE_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [enabled, checkStaleness]);
+
     /**
      * Update a sensor tag value manually
      * Fixed: Use functional setState to avoid stale closure
@@ -398,6 +398,7 @@ export function useSensorTagManager(params: UseSensorTagManagerParams): UseSenso
     const debugData: SensorDebugData = useMemo(() => {
         // Convert inputs map to sorted array
         const inputs = Array.from(registry.inputs.values())
+            .map(input => ({ ...input, stale: staleness.tags.has(input.tag) }))
             .sort((a, b) => a.tag.localeCompare(b.tag));
 
         // Convert outputs map to sorted array
@@ -409,7 +410,8 @@ export function useSensorTagManager(params: UseSensorTagManagerParams): UseSenso
             activeTags: registry.inputs.size,
             totalBindings: outputs.reduce((sum, output) => sum + output.targets.length, 0),
             orphanedTags: inputs.filter(input => !input.hasTarget).length,
-            updateRate: Math.round(updateRate * 10) / 10 // Round to 1 decimal
+            updateRate: Math.round(updateRate * 10) / 10, // Round to 1 decimal
+            staleTags: staleness.tags.size
         };
 
         return {
@@ -417,11 +419,13 @@ export function useSensorTagManager(params: UseSensorTagManagerParams): UseSenso
             outputs,
             stats
         };
-    }, [registry, updateRate]);
+    }, [registry, updateRate, staleness]);
 
     return {
         debugData,
         resolvedValues,
+        staleTags: staleness.tags,
+        staleElementIds: staleness.elementIds,
         updateSensor,
         clearSensor,
         clearAll,
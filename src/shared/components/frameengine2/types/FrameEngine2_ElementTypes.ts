@@ -33,10 +33,30 @@ export type Alignment9Way =
     | 'middle-left' | 'center' | 'middle-right'
     | 'bottom-left' | 'bottom-center' | 'bottom-right';
 
+/**
+ * How an element shows that its sensor data has stopped updating
+ * - dim: fade the element
+ * - dashes: replace the value with "--" (sensor and gauge; other types dim)
+ * - badge: overlay a warning badge
+ * - none: keep showing the last value
+ */
+export type StaleDisplayMode = 'dim' | 'dashes' | 'badge' | 'none';
+
+/**
+ * Staleness settings available on every element type
+ */
+export interface StalenessProperties {
+    /** Seconds without an update before this element counts as stale; overrides the tag and layout timeouts */
+    staleTimeout?: number;
+
+    /** How the stale state is shown (default: 'dim') */
+    staleDisplay?: StaleDisplayMode;
+}
+
 /**
  * Properties for Sensor element type
  */
-export interface SensorProperties {
+export interface SensorProperties extends StalenessProperties {
     sensorTag: string;
     showLabel: boolean;
     showUnit: boolean;
@@ -56,7 +76,7 @@ export interface SensorProperties {
 /**
  * Properties for Text element type
  */
-export interface TextProperties {
+export interface TextProperties extends StalenessProperties {
     text: string;
     fontSize: number;
     fontFamily: string;
@@ -71,7 +91,7 @@ export interface TextProperties {
 /**
  * Properties for Gauge element type
  */
-export interface GaugeProperties {
+export interface GaugeProperties extends StalenessProperties {
     sensorTag: string;
     minValue: number;
     maxValue: number;
@@ -94,7 +114,7 @@ export interface GaugeProperties {
 /**
  * Properties for TimeDate element type
  */
-export interface TimeDateProperties {
+export interface TimeDateProperties extends StalenessProperties {
     displayMode: 'time' | 'date' | 'both';
     timeFormat: '12h' | '24h';
     dateFormat: 'short' | 'long' | 'numeric';
@@ -112,7 +132,7 @@ export interface TimeDateProperties {
 /**
  * Properties for MediaImage element type
  */
-export interface MediaImageProperties {
+export interface MediaImageProperties extends StalenessProperties {
     filename: string | null;
     objectFit: 'cover' | 'contain' | 'fill' | 'none';
     opacity: number;
@@ -121,7 +141,7 @@ export interface MediaImageProperties {
 /**
  * Properties for MediaVideo element type
  */
-export interface MediaVideoProperties {
+export interface MediaVideoProperties extends StalenessProperties {
     filename: string | null;
     objectFit: 'cover' | 'contain' | 'fill' | 'none';
     opacity: number;
@@ -162,7 +182,7 @@ export interface DiscoveredRiveDataBinding {
 /**
  * Properties for MediaRive element type
  */
-export interface MediaRiveProperties {
+export interface MediaRiveProperties extends StalenessProperties {
     filename: string | null;
     autoplay: boolean;
     backgroundColor: string;
@@ -174,7 +194,7 @@ export interface MediaRiveProperties {
 /**
  * Properties for ECG/Waveform element type
  */
-export interface ECGProperties {
+export interface ECGProperties extends StalenessProperties {
     sensorTag: string;
     yAxisMin: number;
     yAxisMax: number;
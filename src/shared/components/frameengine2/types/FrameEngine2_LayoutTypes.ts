@@ -84,6 +84,14 @@ export interface CanvasSettings {
     testBindingsEnabled?: boolean;
     testBindingsInterval?: number;
     includedSensorTags?: string[];
+    /** Seconds without an update before a live sensor tag counts as stale (0 or unset disables) */
+    staleTimeout?: number;
+    /** Per-tag stale timeouts in seconds, overriding staleTimeout */
+    sensorStaleTimeouts?: Record<string, number>;
+    /** Milliseconds to wait for a new layout's assets before showing it anyway (default 5000) */
+    preloadTimeout?: number;
+    /** Milliseconds to crossfade between layouts when one replaces another (0 or unset swaps instantly) */
+    crossfadeDuration?: number;
 }
 
 /**
@@ -54,6 +54,9 @@ export interface SensorTagInput {
 
     /** Source of this data: 'live' from actual sensors or 'test' from test inputs */
     source: SensorDataSource;
+
+    /** Whether a live tag has gone longer than its stale timeout without an update */
+    stale?: boolean;
 }
 
 // ============================================================================
@@ -141,6 +144,9 @@ export interface SensorTagStats {
 
     /** Update rate in updates per second */
     updateRate: number;
+
+    /** Number of live tags past their stale timeout */
+    staleTags: number;
 }
 
 // ============================================================================
@@ -83,6 +83,22 @@ export interface SensorPayload {
 
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error' | 'disabled';
 
+export type DeviceEventType = 'touch' | 'click' | 'rive_event' | 'state_change' | 'ack' | 'render_error';
+
+/**
+ * Event sent from the screen back to the host
+ */
+export interface DeviceEvent {
+    type: DeviceEventType;
+    screenId?: string;
+    /** Element the event came from, when it has one */
+    elementId?: string;
+    /** Event details, e.g. { x, y } for touch, { name, properties } for rive_event, { message } for render_error */
+    data?: Record<string, any>;
+    /** Milliseconds since the epoch */
+    timestamp?: number;
+}
+
 export interface VirtualDisplayDataProvider {
     // Configuration management
     onConfigurationReceived(callback: (config: RiveConfig) => void): () => void;
@@ -93,6 +109,9 @@ export interface VirtualDisplayDataProvider {
     // Connection status management
     onConnectionStatusChanged(callback: (status: ConnectionStatus) => void): () => void;
 
+    // Device-to-host events (touch, Rive events, acks, render errors)
+    send(event: DeviceEvent): void;
+
     // Control methods
     connect(): void;
     disconnect(): void;
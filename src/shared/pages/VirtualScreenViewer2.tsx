@@ -29,12 +29,36 @@ import {
     VirtualDisplayDataProvider,
     RiveConfig,
     SensorPayload,
+    DeviceEvent,
 } from '../interfaces/VirtualDisplayDataProvider';
 import { WebSocketDataProvider } from '../providers/WebSocketDataProvider';
+import { WebSocketPushDataProvider } from '../providers/WebSocketPushDataProvider';
+import { SseDataProvider } from '../providers/SseDataProvider';
 import FrameEngine2_Renderer_Background from '../components/frameengine2/FrameEngine2_Renderer_Background';
 import FrameEngine2_Renderer_Elements from '../components/frameengine2/FrameEngine2_Renderer_Elements';
+import { reconcileElements, getElementMountKey } from '../components/frameengine2/FrameEngine2_ElementReconciler';
+import { collectLayoutAssets, isAssetPreloaded, preloadAssets } from '../components/frameengine2/FrameEngine2_AssetPreloader';
+import { getBackgroundMountKey, CrossfadeDirection } from '../components/frameengine2/FrameEngine2_Crossfade';
 import { useSensorTagManager } from '../components/frameengine2/hooks/FrameEngine2_useSensorTagManager';
 
+// Browser transports, in fallback order: a transport that never connects hands over to the next
+export type ViewerTransport = 'websocket' | 'sse' | 'poll';
+const TRANSPORT_FALLBACKS: ViewerTransport[] = ['websocket', 'sse', 'poll'];
+
+// How long a new layout waits for its assets when canvas settings don't say
+const DEFAULT_PRELOAD_TIMEOUT = 5000;
+
+// What a crossfade still shows of the previous layout while the new one fades in
+interface LayoutTransition {
+    /** Previous layout, when its background differs from the new one */
+    background: FrameLayoutConfig | null;
+    /** Elements the new layout dropped or remounts */
+    leavingElements: PlacedElement[];
+    /** Mount keys of elements the new layout added */
+    enteringKeys: Set<string>;
+    duration: number;
+}
+
 interface VirtualScreenViewer2Props {
     deviceId?: string;
     containerHeight?: number;
@@ -42,6 +66,8 @@ interface VirtualScreenViewer2Props {
     isStandalone?: boolean;
     showControls?: boolean;
     onFullscreenClick?: () => void;
+    // First transport to try; also settable with ?transport= in the page URL
+    transport?: ViewerTransport;
 }
 
 interface VirtualScreenViewer2ComponentProps extends VirtualScreenViewer2Props {
@@ -94,14 +120,24 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
     const [backgroundRiveMachines, setBackgroundRiveMachines] = useState<any[]>([]);
     const [backgroundRiveBindings, setBackgroundRiveBindings] = useState<any[]>([]);
 
+    const [transition, setTransition] = useState<LayoutTransition | null>(null);
+
     const isMountedRef = useRef(true);
     const riveConfigRef = useRef<RiveConfig | null>(null);
 
+    // Latest shown layout/elements for the swap, and a token so only the newest preload swaps in
+    const layoutRef = useRef(layout);
+    const elementsRef = useRef(elements);
+    layoutRef.current = layout;
+    elementsRef.current = elements;
+    const swapTokenRef = useRef(0);
+    const transitionTimerRef = useRef<number | undefined>(undefined);
+
     /**
      * Sensor Tag Manager - manages sensor data flow
      * Only enabled when layout and elements are ready
      */
-    const { resolvedValues, updateSensor } = useSensorTagManager({
+    const { resolvedValues, updateSensor, staleElementIds } = useSensorTagManager({
         layout: layout || {
             displayName: '',
             layoutType: 'frameengine2',
@@ -125,6 +161,9 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
                                (canvas as any)?.elementPadding ??
                                4;
 
+        // Stale timeouts sit with the other canvas settings; unset means values never go stale
+        const canvasSettings = (canvas as any)?.settings;
+
         return {
             displayName: 'Virtual Screen',
             layoutType: 'frameengine2',
@@ -152,12 +191,53 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
                     gridSize: 10,
                     gridColor: '#333333'
                 },
-                elementPadding
+                elementPadding,
+                staleTimeout: canvasSettings?.staleTimeout,
+                sensorStaleTimeouts: canvasSettings?.sensorStaleTimeouts,
+                preloadTimeout: canvasSettings?.preloadTimeout,
+                crossfadeDuration: canvasSettings?.crossfadeDuration
             }
         };
     }, []);
 
 
+    /**
+     * Send an event back to the host through the data provider
+     */
+    const sendDeviceEvent = useCallback((event: DeviceEvent) => {
+        dataProvider.send({
+            screenId: riveConfigRef.current?.screenId,
+            ...event,
+            timestamp: event.timestamp ?? Date.now()
+        });
+    }, [dataProvider]);
+
+    /**
+     * Element clicks are reported with the element id
+     */
+    const handleElementClick = useCallback((elementId: string) => {
+        sendDeviceEvent({ type: 'click', elementId });
+    }, [sendDeviceEvent]);
+
+    /**
+     * Touches are reported in layout coordinates, whatever the screen scaling
+     */
+    const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+        if (!layout) return;
+
+        const rect = e.currentTarget.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return;
+
+        sendDeviceEvent({
+            type: 'touch',
+            data: {
+                x: Math.round(((e.clientX - rect.left) * layout.width) / rect.width),
+                y: Math.round(((e.clientY - rect.top) * layout.height) / rect.height),
+                pointerType: e.pointerType
+            }
+        });
+    }, [layout, sendDeviceEvent]);
+
     /**
      * Process brightness sensor data
      */
@@ -209,14 +289,61 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
         processBrightnessSensor(sensorPayload);
     }, [processBrightnessSensor, updateSensor]);
 
+    /**
+     * Show a layout whose assets are loaded (or timed out), crossfading from the previous one if configured
+     */
+    const swapLayout = useCallback((config: RiveConfig, layoutConfig: FrameLayoutConfig, placedElements: PlacedElement[]) => {
+        const previousLayout = layoutRef.current;
+        const previousElements = elementsRef.current;
+
+        // Screenshots must show the layout as it is, not halfway through a fade
+        const duration = isPuppeteerMode ? 0 : (layoutConfig.canvasSettings?.crossfadeDuration ?? 0);
+
+        window.clearTimeout(transitionTimerRef.current);
+        let nextTransition: LayoutTransition | null = null;
+
+        if (duration > 0 && previousLayout) {
+            const previousKeys = new Set(previousElements.map(getElementMountKey));
+            const nextKeys = new Set(placedElements.map(getElementMountKey));
+            const backgroundChanged = getBackgroundMountKey(previousLayout) !== getBackgroundMountKey(layoutConfig);
+
+            nextTransition = {
+                background: backgroundChanged ? previousLayout : null,
+                leavingElements: previousElements.filter(element => !nextKeys.has(getElementMountKey(element))),
+                enteringKeys: new Set(Array.from(nextKeys).filter(key => !previousKeys.has(key))),
+                duration
+            };
+
+            if (!nextTransition.background && nextTransition.leavingElements.length === 0 && nextTransition.enteringKeys.size === 0) {
+                nextTransition = null;
+            }
+        }
+
+        if (nextTransition) {
+            transitionTimerRef.current = window.setTimeout(() => {
+                if (isMountedRef.current) setTransition(null);
+            }, duration);
+        }
+
+        riveConfigRef.current = config;
+        setTransition(nextTransition);
+        setLayout(layoutConfig);
+        // Keep unchanged elements mounted so Rive, video and ECG state survives layout updates
+        setElements(prev => reconcileElements(prev, placedElements));
+        setIsReady(true);
+
+        // Lets the host know the layout reached the screen
+        sendDeviceEvent({ type: 'ack', data: { of: 'rive_config', screenId: config.screenId } });
+    }, [isPuppeteerMode, sendDeviceEvent]);
+
     /**
      * Process configuration data from WebSocket
      *
      * FRAMEENGINE2 FORMAT ONLY - NO CONVERSION
+     * The current layout stays up while the new one's assets load in the background.
      */
     const processConfigData = useCallback((config: RiveConfig) => {
-        riveConfigRef.current = config;
-
+        const token = ++swapTokenRef.current;
         const layoutConfig = convertToLayout(config);
 
         // FrameEngine2 elements - use as-is (x, y, width, height are direct properties)
@@ -234,10 +361,40 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
             zIndex: element.zIndex
         }));
 
-        setLayout(layoutConfig);
-        setElements(placedElements);
-        setIsReady(true);
-    }, [convertToLayout]);
+        // Patches that don't add assets (colors, text, positions) apply right away
+        const assets = collectLayoutAssets(layoutConfig, placedElements).filter(asset => !isAssetPreloaded(asset));
+        if (assets.length === 0) {
+            swapLayout(config, layoutConfig, placedElements);
+            return;
+        }
+
+        const timeout = layoutConfig.canvasSettings?.preloadTimeout ?? DEFAULT_PRELOAD_TIMEOUT;
+        preloadAssets(assets, timeout).then(({ failures, pending }) => {
+            // A newer config arrived while this one was loading
+            if (!isMountedRef.current || token !== swapTokenRef.current) return;
+
+            failures.forEach(({ asset, message }) => {
+                console.warn('[VirtualScreenViewer2] Preload failed:', message);
+                sendDeviceEvent({
+                    type: 'render_error',
+                    screenId: config.screenId,
+                    elementId: asset.elementId,
+                    data: { source: 'preload', kind: asset.kind, src: asset.src, message }
+                });
+            });
+
+            if (pending.length > 0) {
+                console.warn(`[VirtualScreenViewer2] Preload timed out after ${timeout}ms with ${pending.length} assets pending`);
+                sendDeviceEvent({
+                    type: 'render_error',
+                    screenId: config.screenId,
+                    data: { source: 'preload', message: `Timed out after ${timeout}ms`, pending: pending.map(asset => asset.src) }
+                });
+            }
+
+            swapLayout(config, layoutConfig, placedElements);
+        });
+    }, [convertToLayout, sendDeviceEvent, swapLayout]);
 
     /**
      * Handle background Rive discovery
@@ -465,6 +622,31 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
         );
     }
 
+    // During a crossfade the previous background and the elements it drops stay mounted under their
+    // old keys, fading out over the new layout's fade-in
+    const backgroundLayers: Array<{ layout: FrameLayoutConfig; fade?: CrossfadeDirection }> = transition?.background
+        ? [{ layout: transition.background, fade: 'out' }, { layout, fade: 'in' }]
+        : [{ layout }];
+
+    const elementLayers: Array<{ element: PlacedElement; fade?: CrossfadeDirection }> = [
+        ...elements.map(element => ({
+            element,
+            fade: transition?.enteringKeys.has(getElementMountKey(element)) ? 'in' as const : undefined
+        })),
+        ...(transition?.leavingElements ?? []).map(element => ({ element, fade: 'out' as const }))
+    ].filter(({ element }) => element.visible);
+
+    const renderBackgroundLayers = () => backgroundLayers.map(({ layout: backgroundLayout, fade }) => (
+        <FrameEngine2_Renderer_Background
+            key={getBackgroundMountKey(backgroundLayout)}
+            layout={backgroundLayout}
+            onRiveDiscovery={fade === 'out' ? undefined : handleBackgroundRiveDiscovery}
+            onDeviceEvent={sendDeviceEvent}
+            fade={fade}
+            fadeDuration={transition?.duration}
+        />
+    ));
+
     // Puppeteer/Screenshot mode - minimal rendering
     if (isPuppeteerMode || isScreenshotMode) {
         return (
@@ -484,20 +666,19 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
                     ...brightnessStyle
                 }}
             >
-                <FrameEngine2_Renderer_Background
-                    layout={layout}
-                    onRiveDiscovery={handleBackgroundRiveDiscovery}
-                />
+                {renderBackgroundLayers()}
 
-                {elements
-                    .filter(element => element.visible)
-                    .map((element) => (
+                {elementLayers.map(({ element, fade }) => (
                     <FrameEngine2_Renderer_Elements
-                        key={element.id}
+                        key={getElementMountKey(element)}
                         element={element}
                         resolvedValues={resolvedValues}
                         showPlaceholders={false}
                         elementPadding={layout.canvasSettings?.elementPadding || 4}
+                        onDeviceEvent={sendDeviceEvent}
+                        isStale={staleElementIds.has(element.id)}
+                        fade={fade}
+                        fadeDuration={transition?.duration}
                     />
                 ))}
             </div>
@@ -629,6 +810,7 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
         }}>
             <div
                 data-testid="virtual-screen-container"
+                onPointerDown={handlePointerDown}
                 style={{
                     width: layout.width,
                     height: layout.height,
@@ -637,10 +819,7 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
                     ...brightnessStyle
                 }}
             >
-                <FrameEngine2_Renderer_Background
-                    layout={layout}
-                    onRiveDiscovery={handleBackgroundRiveDiscovery}
-                />
+                {renderBackgroundLayers()}
 
                 <div style={{
                     position: 'absolute',
@@ -650,15 +829,18 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
                     height: '100%',
                     zIndex: 1,
                 }}>
-                    {elements
-                        .filter(element => element.visible)
-                        .map((element) => (
+                    {elementLayers.map(({ element, fade }) => (
                         <FrameEngine2_Renderer_Elements
-                            key={element.id}
+                            key={getElementMountKey(element)}
                             element={element}
                             resolvedValues={resolvedValues}
                             showPlaceholders={false}
                             elementPadding={layout.canvasSettings?.elementPadding || 4}
+                            onClick={handleElementClick}
+                            onDeviceEvent={sendDeviceEvent}
+                            isStale={staleElementIds.has(element.id)}
+                            fade={fade}
+                            fadeDuration={transition?.duration}
                         />
                     ))}
                 </div>
@@ -669,34 +851,56 @@ export const VirtualScreenViewer2Component: React.FC<VirtualScreenViewer2Compone
 
 /**
  * VirtualScreenViewer2 - Main export with WebSocket provider
+ *
+ * Subscribes over a push WebSocket, then Server-Sent Events for proxies that block
+ * WebSocket upgrades, then polls the REST endpoint as the last resort.
  */
 const VirtualScreenViewer2: React.FC<VirtualScreenViewer2Props> = (props) => {
     const { deviceId: urlDeviceId } = useParams<{ deviceId: string }>();
+    const location = useLocation();
     const deviceId = props.deviceId || urlDeviceId;
-    const dataProviderRef = useRef<WebSocketDataProvider | null>(null);
-
-    if (!dataProviderRef.current) {
-        dataProviderRef.current = new WebSocketDataProvider({
-            deviceId,
-            enabled: true,
-            defaultPollRate: 250
-        });
-    }
+    const [transport, setTransport] = useState<ViewerTransport>(() => {
+        const requested = new URLSearchParams(location.search).get('transport') as ViewerTransport | null;
+        return requested && TRANSPORT_FALLBACKS.includes(requested) ? requested : (props.transport ?? 'websocket');
+    });
+    const [dataProvider, setDataProvider] = useState<VirtualDisplayDataProvider | null>(null);
 
+    // Each deviceId/transport pair owns the provider created here; cleanup tears down exactly that one
     useEffect(() => {
+        let active = true;
+        const fallBack = () => {
+            if (!active) return;
+            const next = TRANSPORT_FALLBACKS[TRANSPORT_FALLBACKS.indexOf(transport) + 1] ?? 'poll';
+            console.warn(`[VirtualScreenViewer2] ${transport} connection unavailable, falling back to ${next}`);
+            setTransport(next);
+        };
+
+        let provider: VirtualDisplayDataProvider;
+        if (transport === 'websocket') {
+            provider = new WebSocketPushDataProvider({ deviceId, enabled: true, onGiveUp: fallBack });
+        } else if (transport === 'sse') {
+            provider = new SseDataProvider({ deviceId, enabled: true, onGiveUp: fallBack });
+        } else {
+            provider = new WebSocketDataProvider({
+                deviceId,
+                enabled: true,
+                defaultPollRate: 250
+            });
+        }
+        setDataProvider(provider);
+
         return () => {
-            const provider = dataProviderRef.current;
-            if (provider) {
-                provider.disconnect();
-                setTimeout(() => {
-                    provider.cleanup();
-                    dataProviderRef.current = null;
-                }, 100);
-            }
+            active = false;
+            provider.disconnect();
+            setTimeout(() => {
+                provider.cleanup();
+                // A provider for the next deviceId/transport may already be in place
+                setDataProvider((current) => (current === provider ? null : current));
+            }, 100);
         };
-    }, [deviceId]);
+    }, [deviceId, transport]);
 
-    if (!dataProviderRef.current) {
+    if (!dataProvider) {
         return null;
     }
 
@@ -704,7 +908,7 @@ const VirtualScreenViewer2: React.FC<VirtualScreenViewer2Props> = (props) => {
         <VirtualScreenViewer2Component
             {...props}
             deviceId={deviceId}
-            dataProvider={dataProviderRef.current}
+            dataProvider={dataProvider}
         />
     );
 };
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CompositeDataProvider, combineConnectionStatus } from './CompositeDataProvider';
+import type {
+    ConnectionStatus,
+    DeviceEvent,
+    RiveConfig,
+    SensorPayload,
+    VirtualDisplayDataProvider
+} from '../interfaces/VirtualDisplayDataProvider';
+
+// Hands out whatever the test emits, synchronously
+class FakeProvider implements VirtualDisplayDataProvider {
+    private configCallbacks: Array<(config: RiveConfig) => void> = [];
+    private sensorCallbacks: Array<(data: SensorPayload) => void> = [];
+    private statusCallbacks: Array<(status: ConnectionStatus) => void> = [];
+    private status: ConnectionStatus = 'disconnected';
+
+    onConfigurationReceived(callback: (config: RiveConfig) => void): () => void {
+        this.configCallbacks.push(callback);
+        return () => { this.configCallbacks = this.configCallbacks.filter(c => c !== callback); };
+    }
+
+    onSensorDataReceived(callback: (data: SensorPayload) => void): () => void {
+        this.sensorCallbacks.push(callback);
+        return () => { this.sensorCallbacks = this.sensorCallbacks.filter(c => c !== callback); };
+    }
+
+    onConnectionStatusChanged(callback: (status: ConnectionStatus) => void): () => void {
+        this.statusCallbacks.push(callback);
+        return () => { this.statusCallbacks = this.statusCallbacks.filter(c => c !== callback); };
+    }
+
+    send = vi.fn<(event: DeviceEvent) => void>();
+
+    connect(): void {
+        this.setStatus('connected');
+    }
+
+    disconnect(): void {
+        this.setStatus('disconnected');
+    }
+
+    isConnected(): boolean {
+        return this.status === 'connected';
+    }
+
+    cleanup(): void {}
+
+    setStatus(status: ConnectionStatus): void {
+        this.status = status;
+        this.statusCallbacks.forEach(callback => callback(status));
+    }
+
+    emitSensors(sensors: Record<string, number>): void {
+        const payload: SensorPayload = { type: 'rive_sensor', screenId: 'screen', sensors: {} };
+        Object.entries(sensors).forEach(([tag, value]) => {
+            payload.sensors[tag] = { value, unit: '', displayValue: String(value) };
+        });
+        this.sensorCallbacks.forEach(callback => callback(payload));
+    }
+}
+
+describe('combineConnectionStatus', () => {
+    it.each<[ConnectionStatus[], ConnectionStatus]>([
+        [['connected', 'connected'], 'connected'],
+        [['connected', 'connecting'], 'connecting'],
+        [['connected', 'disconnected'], 'disconnected'],
+        [['connecting', 'error', 'connected'], 'error'],
+        [['connected', 'disabled'], 'connected'],
+        [['disabled', 'disabled'], 'disabled'],
+        [[], 'disabled']
+    ])('combines %j into %s', (statuses, expected) => {
+        expect(combineConnectionStatus(statuses)).toBe(expected);
+    });
+});
+
+describe('CompositeDataProvider tag arbitration', () => {
+    let primary: FakeProvider;
+    let secondary: FakeProvider;
+    let composite: CompositeDataProvider;
+    let received: Array<Record<string, number>>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        primary = new FakeProvider();
+        secondary = new FakeProvider();
+        composite = new CompositeDataProvider({
+            sources: [
+                { provider: primary, priority: 1 },
+                { provider: secondary }
+            ],
+            ownershipTimeoutMs: 5000
+        });
+        received = [];
+        composite.onSensorDataReceived((data) => {
+            received.push(Object.fromEntries(Object.entries(data.sensors).map(([tag, sensor]) => [tag, sensor.value])));
+        });
+        composite.connect();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps a tag with its higher priority owner while the owner is active', () => {
+        primary.emitSensors({ rpm: 1 });
+        secondary.emitSensors({ rpm: 2, speed: 10 });
+
+        expect(received).toEqual([{ rpm: 1 }, { speed: 10 }]);
+    });
+
+    it('hands a tag to a lower priority source once the owner goes quiet', () => {
+        primary.emitSensors({ rpm: 1 });
+        vi.advanceTimersByTime(5000);
+        secondary.emitSensors({ rpm: 2 });
+        primary.emitSensors({ rpm: 3 });
+
+        expect(received).toEqual([{ rpm: 1 }, { rpm: 2 }, { rpm: 3 }]);
+    });
+
+    it('lets a higher priority source take a tag over at once', () => {
+        secondary.emitSensors({ rpm: 2 });
+        primary.emitSensors({ rpm: 1 });
+
+        expect(received).toEqual([{ rpm: 2 }, { rpm: 1 }]);
+    });
+
+    it('prefixes tags per source so equal names do not compete', () => {
+        const lab = new FakeProvider();
+        const garage = new FakeProvider();
+        const prefixed = new CompositeDataProvider({
+            sources: [
+                { provider: lab, tagPrefix: 'lab.' },
+                { provider: garage, tagPrefix: 'garage.' }
+            ]
+        });
+        const tags: string[][] = [];
+        prefixed.onSensorDataReceived(data => tags.push(Object.keys(data.sensors)));
+        prefixed.connect();
+
+        lab.emitSensors({ cpu: 1 });
+        garage.emitSensors({ cpu: 2 });
+
+        expect(tags).toEqual([['lab.cpu'], ['garage.cpu']]);
+    });
+
+    it('reports the worst status of its sources', () => {
+        const statuses: ConnectionStatus[] = [];
+        composite.onConnectionStatusChanged(status => statuses.push(status));
+
+        secondary.setStatus('error');
+        vi.runAllTimers();
+
+        expect(composite.isConnected()).toBe(false);
+        expect(composite.getSourceStatuses()).toEqual(['connected', 'error']);
+        expect(statuses).toEqual(['error']);
+    });
+});
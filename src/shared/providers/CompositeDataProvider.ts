@@ -0,0 +1,264 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    VirtualDisplayDataProvider,
+    RiveConfig,
+    SensorPayload,
+    ConnectionStatus,
+    DeviceEvent
+} from '../interfaces/VirtualDisplayDataProvider';
+import { enhanceSensorDataWithDisplayValues } from './SensorDisplayValues';
+
+export interface CompositeSource {
+    provider: VirtualDisplayDataProvider;
+    /** Prepended to every tag from this source, e.g. 'lab.' turns 'cpu' into 'lab.cpu' */
+    tagPrefix?: string;
+    /** When two sources send the same tag the higher priority wins (default 0) */
+    priority?: number;
+    /** Whether sensor data from this source is used (default true) */
+    sensors?: boolean;
+}
+
+interface CompositeDataProviderOptions {
+    sources: CompositeSource[];
+    /** Index of the source whose configuration is used (default 0) */
+    configSource?: number;
+    /** Index of the source that device events are sent to (default: the config source) */
+    eventSource?: number;
+    /** How long a tag stays with its source after that source's last update before a lower priority source may take it over (default 5000) */
+    ownershipTimeoutMs?: number;
+}
+
+// Worst status first; a composite is only as connected as its least connected source
+const STATUS_PRECEDENCE: ConnectionStatus[] = ['error', 'connecting', 'disconnected', 'connected'];
+
+/**
+ * Combines the statuses of several sources, ignoring disabled ones.
+ * Reports 'disabled' only when every source is disabled.
+ */
+export function combineConnectionStatus(statuses: ConnectionStatus[]): ConnectionStatus {
+    const active: ConnectionStatus[] = statuses.filter(status => status !== 'disabled');
+    if (active.length === 0) return 'disabled';
+
+    return STATUS_PRECEDENCE.find(status => active.includes(status)) ?? 'disconnected';
+}
+
+interface TagOwner {
+    source: number;
+    lastUpdate: number;
+}
+
+/**
+ * Presents several providers as one: the layout comes from one source while sensor tags are merged
+ * from all of them, renamed with per-source prefixes and arbitrated by priority.
+ */
+export class CompositeDataProvider implements VirtualDisplayDataProvider {
+    private sources: CompositeSource[];
+    private configSource: number;
+    private eventSource: number;
+    private ownershipTimeoutMs: number;
+    private connectionStatus: ConnectionStatus = 'disconnected';
+    private sourceStatuses: ConnectionStatus[];
+    private sourceUnsubscribers: Array<() => void> = [];
+    private connectRequested: boolean = false;
+
+    private configCallbacks: Array<(config: RiveConfig) => void> = [];
+    private sensorCallbacks: Array<(data: SensorPayload) => void> = [];
+    private statusCallbacks: Array<(status: ConnectionStatus) => void> = [];
+
+    private currentConfig: RiveConfig | null = null;
+    private tagOwners: Map<string, TagOwner> = new Map();
+
+    constructor(options: CompositeDataProviderOptions) {
+        this.sources = options.sources;
+        this.configSource = options.configSource ?? 0;
+        this.eventSource = options.eventSource ?? this.configSource;
+        this.ownershipTimeoutMs = options.ownershipTimeoutMs ?? 5000;
+        this.sourceStatuses = this.sources.map(source => (source.provider.isConnected() ? 'connected' : 'disconnected'));
+
+        if (!this.sources[this.configSource]) {
+            console.warn(`[CompositeDataProvider] Config source ${this.configSource} does not exist`);
+        }
+    }
+
+    onConfigurationReceived(callback: (config: RiveConfig) => void): () => void {
+        this.configCallbacks.push(callback);
+
+        // Subscribers that arrive after the layout still get it
+        if (this.currentConfig && this.isConnected()) {
+            const config = this.currentConfig;
+            setTimeout(() => {
+                if (this.configCallbacks.includes(callback)) callback(config);
+            }, 0);
+        }
+
+        return () => {
+            const index = this.configCallbacks.indexOf(callback);
+            if (index > -1) this.configCallbacks.splice(index, 1);
+        };
+    }
+
+    onSensorDataReceived(callback: (data: SensorPayload) => void): () => void {
+        this.sensorCallbacks.push(callback);
+        return () => {
+            const index = this.sensorCallbacks.indexOf(callback);
+            if (index > -1) this.sensorCallbacks.splice(index, 1);
+        };
+    }
+
+    onConnectionStatusChanged(callback: (status: ConnectionStatus) => void): () => void {
+        this.statusCallbacks.push(callback);
+        return () => {
+            const index = this.statusCallbacks.indexOf(callback);
+            if (index > -1) this.statusCallbacks.splice(index, 1);
+        };
+    }
+
+    send(event: DeviceEvent): void {
+        this.sources[this.eventSource]?.provider.send(event);
+    }
+
+    connect(): void {
+        this.connectRequested = true;
+        this.subscribeToSources();
+        this.sources.forEach(source => source.provider.connect());
+        this.updateStatus();
+    }
+
+    disconnect(): void {
+        this.connectRequested = false;
+        this.sources.forEach(source => source.provider.disconnect());
+    }
+
+    isConnected(): boolean {
+        return this.connectionStatus === 'connected';
+    }
+
+    cleanup(): void {
+        // Viewers clean up shortly after disconnecting; a connect() in between means it was remounted
+        if (this.connectRequested) return;
+
+        this.sourceUnsubscribers.forEach(unsubscribe => unsubscribe());
+        this.sourceUnsubscribers = [];
+        this.sources.forEach(source => source.provider.cleanup());
+
+        this.configCallbacks = [];
+        this.sensorCallbacks = [];
+        this.statusCallbacks = [];
+        this.currentConfig = null;
+        this.tagOwners.clear();
+    }
+
+    /**
+     * Status of each source, in the order they were given
+     */
+    getSourceStatuses(): ConnectionStatus[] {
+        return [...this.sourceStatuses];
+    }
+
+    private subscribeToSources(): void {
+        if (this.sourceUnsubscribers.length > 0) return;
+
+        this.sources.forEach((source, index) => {
+            this.sourceUnsubscribers.push(source.provider.onConnectionStatusChanged((status) => {
+                this.sourceStatuses[index] = status;
+                this.updateStatus();
+            }));
+
+            if (index === this.configSource) {
+                this.sourceUnsubscribers.push(source.provider.onConfigurationReceived(config => this.processConfig(config)));
+            }
+
+            if (source.sensors !== false) {
+                this.sourceUnsubscribers.push(source.provider.onSensorDataReceived(data => this.processSensorData(index, data)));
+            }
+        });
+    }
+
+    private processConfig(config: RiveConfig): void {
+        this.currentConfig = config;
+        this.configCallbacks.forEach((callback) => {
+            try {
+                callback(config);
+            } catch (error) {
+                console.error('[CompositeDataProvider] Error in config callback:', error);
+            }
+        });
+    }
+
+    private processSensorData(sourceIndex: number, data: SensorPayload): void {
+        if (!data?.sensors) return;
+
+        const source = this.sources[sourceIndex];
+        const priority = source.priority ?? 0;
+        const now = Date.now();
+        const sensors: SensorPayload['sensors'] = {};
+
+        Object.entries(data.sensors).forEach(([tag, sensor]) => {
+            const mergedTag = (source.tagPrefix ?? '') + tag;
+            const owner = this.tagOwners.get(mergedTag);
+
+            // Lower priority sources only fill in tags whose owner has gone quiet
+            if (owner && owner.source !== sourceIndex) {
+                const ownerPriority = this.sources[owner.source].priority ?? 0;
+                const ownerActive = now - owner.lastUpdate < this.ownershipTimeoutMs;
+                if (priority < ownerPriority && ownerActive) return;
+            }
+
+            this.tagOwners.set(mergedTag, { source: sourceIndex, lastUpdate: now });
+            sensors[mergedTag] = sensor;
+        });
+
+        if (Object.keys(sensors).length === 0) return;
+
+        // Display values depend on the merged layout, which the sensor sources may not have
+        const payload = enhanceSensorDataWithDisplayValues({
+            type: 'rive_sensor',
+            screenId: this.currentConfig?.screenId ?? data.screenId,
+            sensors
+        }, this.currentConfig);
+
+        this.sensorCallbacks.forEach((callback) => {
+            try {
+                callback(payload);
+            } catch (error) {
+                console.error('[CompositeDataProvider] Error in sensor callback:', error);
+            }
+        });
+    }
+
+    private updateStatus(): void {
+        const status = combineConnectionStatus(this.sourceStatuses);
+        if (this.connectionStatus === status) return;
+        this.connectionStatus = status;
+
+        // Call callbacks asynchronously to avoid blocking
+        const callbacks = [...this.statusCallbacks];
+        setTimeout(() => {
+            callbacks.forEach((callback) => {
+                try {
+                    callback(status);
+                } catch (error) {
+                    console.error('[CompositeDataProvider] Error in status callback:', error);
+                }
+            });
+        }, 0);
+    }
+}
@@ -0,0 +1,132 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    VirtualDisplayDataProvider,
+    RiveConfig,
+    SensorPayload,
+    ConnectionStatus,
+    DeviceEvent
+} from '../interfaces/VirtualDisplayDataProvider';
+
+/**
+ * Callback registries and connection status shared by the browser data providers.
+ * Subclasses run their own transport and hand what it delivers to emitConfig, emitSensorData
+ * and setConnectionStatus; `label` prefixes their log lines.
+ */
+export abstract class DataProviderBase implements VirtualDisplayDataProvider {
+    protected connectionStatus: ConnectionStatus = 'disconnected';
+    protected currentConfig: RiveConfig | null = null;
+
+    private configCallbacks: Array<(config: RiveConfig) => void> = [];
+    private sensorCallbacks: Array<(data: SensorPayload) => void> = [];
+    private statusCallbacks: Array<(status: ConnectionStatus) => void> = [];
+
+    protected constructor(protected readonly label: string) {}
+
+    abstract send(event: DeviceEvent): void;
+    abstract connect(): void;
+    abstract disconnect(): void;
+    abstract cleanup(): void;
+
+    onConfigurationReceived(callback: (config: RiveConfig) => void): () => void {
+        this.configCallbacks.push(callback);
+
+        // Late subscribers get the layout that is already on screen
+        if (this.currentConfig && this.canReplayConfig()) {
+            const config = this.currentConfig;
+            setTimeout(() => {
+                if (this.configCallbacks.includes(callback)) callback(config);
+            }, 0);
+        }
+
+        return () => {
+            const index = this.configCallbacks.indexOf(callback);
+            if (index > -1) this.configCallbacks.splice(index, 1);
+        };
+    }
+
+    onSensorDataReceived(callback: (data: SensorPayload) => void): () => void {
+        this.sensorCallbacks.push(callback);
+        return () => {
+            const index = this.sensorCallbacks.indexOf(callback);
+            if (index > -1) this.sensorCallbacks.splice(index, 1);
+        };
+    }
+
+    onConnectionStatusChanged(callback: (status: ConnectionStatus) => void): () => void {
+        this.statusCallbacks.push(callback);
+        return () => {
+            const index = this.statusCallbacks.indexOf(callback);
+            if (index > -1) this.statusCallbacks.splice(index, 1);
+        };
+    }
+
+    isConnected(): boolean {
+        return this.connectionStatus === 'connected';
+    }
+
+    // Whether currentConfig is on screen yet, so a late subscriber should be handed it
+    protected canReplayConfig(): boolean {
+        return true;
+    }
+
+    protected emitConfig(config: RiveConfig): void {
+        this.configCallbacks.forEach((callback) => {
+            try {
+                callback(config);
+            } catch (error) {
+                console.error(`[${this.label}] Error in config callback:`, error);
+            }
+        });
+    }
+
+    protected emitSensorData(payload: SensorPayload): void {
+        this.sensorCallbacks.forEach((callback) => {
+            try {
+                callback(payload);
+            } catch (error) {
+                console.error(`[${this.label}] Error in sensor callback:`, error);
+            }
+        });
+    }
+
+    protected setConnectionStatus(status: ConnectionStatus): void {
+        if (this.connectionStatus === status) return;
+        this.connectionStatus = status;
+
+        // Call callbacks asynchronously to avoid blocking
+        const callbacks = [...this.statusCallbacks];
+        setTimeout(() => {
+            callbacks.forEach((callback) => {
+                try {
+                    callback(status);
+                } catch (error) {
+                    console.error(`[${this.label}] Error in status callback:`, error);
+                }
+            });
+        }, 0);
+    }
+
+    protected clearCallbacks(): void {
+        this.configCallbacks = [];
+        this.sensorCallbacks = [];
+        this.statusCallbacks = [];
+    }
+}
@@ -0,0 +1,53 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { DeviceEvent } from '../interfaces/VirtualDisplayDataProvider';
+
+/**
+ * Device events are posted here by browser providers that have no upstream socket
+ */
+export function getDeviceEventsUrl(deviceId: string): string {
+    return `/api/connections/device/${encodeURIComponent(deviceId)}/device-events`;
+}
+
+/**
+ * Fills in the timestamp so hosts can order events that arrive over different transports
+ */
+export function stampDeviceEvent(event: DeviceEvent): DeviceEvent {
+    return { ...event, timestamp: event.timestamp ?? Date.now() };
+}
+
+/**
+ * POSTs a device event to the REST endpoint. Fire-and-forget: failures are logged, not thrown.
+ */
+export function postDeviceEvent(deviceId: string | undefined, event: DeviceEvent, label: string): void {
+    if (!deviceId) return;
+
+    fetch(getDeviceEventsUrl(deviceId), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(stampDeviceEvent(event))
+    }).then((response) => {
+        if (!response.ok) {
+            console.warn(`[${label}] Device event ${event.type} rejected: ${response.status}`);
+        }
+    }).catch((error) => {
+        console.warn(`[${label}] Could not send device event ${event.type}:`, error);
+    });
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { applyJsonPatch, JsonPatchError, validateJsonPatch, type JsonPatchOperation } from './JsonPatch';
+
+function createLayout() {
+    return {
+        type: 'rive_config',
+        screenId: 'dash',
+        frameConfig: { canvas: { width: 800, height: 480 }, background: { color: '#000' } },
+        frameElements: [
+            { id: 'a', type: 'sensor', properties: { sensorTag: 'rpm' } },
+            { id: 'b', type: 'text', properties: { text: 'Hello' } }
+        ],
+        'odd/key~name': 1
+    };
+}
+
+describe('applyJsonPatch', () => {
+    it.each<[string, JsonPatchOperation[], (layout: any) => void]>([
+        ['add an object member', [{ op: 'add', path: '/frameConfig/rive', value: { enabled: false } }],
+            (layout) => expect(layout.frameConfig.rive).toEqual({ enabled: false })],
+        ['add into an array', [{ op: 'add', path: '/frameElements/1', value: { id: 'c' } }],
+            (layout) => expect(layout.frameElements.map((e: any) => e.id)).toEqual(['a', 'c', 'b'])],
+        ['append to an array', [{ op: 'add', path: '/frameElements/-', value: { id: 'c' } }],
+            (layout) => expect(layout.frameElements.map((e: any) => e.id)).toEqual(['a', 'b', 'c'])],
+        ['remove an object member', [{ op: 'remove', path: '/frameConfig/background' }],
+            (layout) => expect(layout.frameConfig).not.toHaveProperty('background')],
+        ['remove from an array', [{ op: 'remove', path: '/frameElements/0' }],
+            (layout) => expect(layout.frameElements.map((e: any) => e.id)).toEqual(['b'])],
+        ['replace a value', [{ op: 'replace', path: '/frameConfig/canvas/width', value: 1024 }],
+            (layout) => expect(layout.frameConfig.canvas.width).toBe(1024)],
+        ['replace an array element', [{ op: 'replace', path: '/frameElements/1', value: { id: 'z' } }],
+            (layout) => expect(layout.frameElements[1]).toEqual({ id: 'z' })],
+        ['move a value', [{ op: 'move', from: '/frameElements/0', path: '/frameElements/-' }],
+            (layout) => expect(layout.frameElements.map((e: any) => e.id)).toEqual(['b', 'a'])],
+        ['move between members', [{ op: 'move', from: '/screenId', path: '/name' }],
+            (layout) => {
+                expect(layout.name).toBe('dash');
+                expect(layout).not.toHaveProperty('screenId');
+            }],
+        ['copy a value', [{ op: 'copy', from: '/frameElements/0', path: '/frameElements/-' }],
+            (layout) => expect(layout.frameElements[2]).toEqual(layout.frameElements[0])],
+        ['pass a test', [{ op: 'test', path: '/frameElements/0/properties', value: { sensorTag: 'rpm' } }],
+            (layout) => expect(layout).toEqual(createLayout())],
+        ['unescape ~0 and ~1 in pointers', [{ op: 'replace', path: '/odd~1key~0name', value: 2 }],
+            (layout) => expect(layout['odd/key~name']).toBe(2)],
+        ['replace the whole document', [{ op: 'replace', path: '', value: { screenId: 'other' } }],
+            (layout) => expect(layout).toEqual({ screenId: 'other' })]
+    ])('can %s', (_name, patch, check) => {
+        check(applyJsonPatch(createLayout(), patch));
+    });
+
+    it('applies operations in order', () => {
+        const patched = applyJsonPatch(createLayout(), [
+            { op: 'add', path: '/frameElements/-', value: { id: 'c', properties: {} } },
+            { op: 'test', path: '/frameElements/2/id', value: 'c' },
+            { op: 'replace', path: '/frameElements/2/properties', value: { text: 'New' } },
+            { op: 'remove', path: '/frameElements/0' }
+        ]);
+
+        expect(patched.frameElements).toEqual([
+            { id: 'b', type: 'text', properties: { text: 'Hello' } },
+            { id: 'c', properties: { text: 'New' } }
+        ]);
+    });
+
+    it('leaves the input untouched and shares unchanged branches', () => {
+        const layout = createLayout();
+        const snapshot = JSON.parse(JSON.stringify(layout));
+
+        const patched = applyJsonPatch(layout, [{ op: 'replace', path: '/frameElements/1/properties/text', value: 'Bye' }]);
+
+        expect(layout).toEqual(snapshot);
+        expect(patched.frameElements[1].properties.text).toBe('Bye');
+        expect(patched.frameElements[0]).toBe(layout.frameElements[0]);
+        expect(patched.frameConfig).toBe(layout.frameConfig);
+    });
+
+    describe('all or nothing', () => {
+        it.each<[string, JsonPatchOperation[], string]>([
+            ['a failed test', [
+                { op: 'replace', path: '/screenId', value: 'changed' },
+                { op: 'test', path: '/frameConfig/canvas/width', value: 1 }
+            ], 'Operation 1: Test failed at "/frameConfig/canvas/width"'],
+            ['a missing path', [
+                { op: 'remove', path: '/frameElements/0' },
+                { op: 'replace', path: '/frameConfig/missing/width', value: 1 }
+            ], 'Operation 1: Path segment "missing" does not exist'],
+            ['an out of range index', [
+                { op: 'add', path: '/frameElements/-', value: {} },
+                { op: 'remove', path: '/frameElements/3' }
+            ], 'Operation 1: Array index 3 is out of range'],
+            ['a move into its own child', [
+                { op: 'add', path: '/extra', value: 1 },
+                { op: 'move', from: '/frameConfig', path: '/frameConfig/canvas/inner' }
+            ], 'Operation 1: Cannot move a value into one of its children'],
+            ['removing a missing member', [
+                { op: 'replace', path: '/screenId', value: 'changed' },
+                { op: 'remove', path: '/nothing' }
+            ], 'Operation 1: Path segment "nothing" does not exist']
+        ])('throws and changes nothing after %s', (_name, patch, message) => {
+            const layout = createLayout();
+
+            expect(() => applyJsonPatch(layout, patch)).toThrow(new JsonPatchError(message));
+            expect(layout).toEqual(createLayout());
+        });
+    });
+});
+
+describe('validateJsonPatch', () => {
+    it('accepts well-formed operations', () => {
+        expect(() => validateJsonPatch([
+            { op: 'add', path: '/a', value: null },
+            { op: 'remove', path: '/a' },
+            { op: 'replace', path: '', value: {} },
+            { op: 'move', from: '/a', path: '/b' },
+            { op: 'copy', from: '/a', path: '/b' },
+            { op: 'test', path: '/a', value: 1 }
+        ])).not.toThrow();
+    });
+
+    it.each<[string, unknown, string]>([
+        ['a non-array patch', { op: 'add', path: '/a', value: 1 }, 'Patch must be an array of operations'],
+        ['a null patch', null, 'Patch must be an array of operations'],
+        ['a non-object operation', ['add'], 'Operation 0: Operation must be an object'],
+        ['an unknown op', [{ op: 'merge', path: '/a' }], 'Operation 0: Unknown op "merge"'],
+        ['a path that is not a pointer', [{ op: 'remove', path: 'a' }], 'Operation 0: remove requires a JSON Pointer path'],
+        ['a missing path', [{ op: 'add', value: 1 }], 'Operation 0: add requires a JSON Pointer path'],
+        ['a missing from', [{ op: 'move', path: '/a' }], 'Operation 0: move requires a JSON Pointer from'],
+        ['a missing value', [{ op: 'remove', path: '/a' }, { op: 'replace', path: '/a' }], 'Operation 1: replace requires a value']
+    ])('rejects %s', (_name, patch, message) => {
+        expect(() => validateJsonPatch(patch)).toThrow(new JsonPatchError(message));
+    });
+
+    it('rejects a malformed patch before applying any of it', () => {
+        const layout = createLayout();
+
+        expect(() => applyJsonPatch(layout, [
+            { op: 'replace', path: '/screenId', value: 'changed' },
+            { op: 'copy', path: '/a' } as any
+        ])).toThrow('Operation 1: copy requires a JSON Pointer from');
+        expect(layout).toEqual(createLayout());
+    });
+});
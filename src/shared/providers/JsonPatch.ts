@@ -0,0 +1,238 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * RFC 6902 JSON Patch, applied to cached configs when the host sends rive_config_patch.
+ * Never mutates its input: only containers along each changed path are copied, so untouched
+ * elements keep their identity. A patch applies completely or throws and changes nothing.
+ * The main process uses the same code, compiled to CommonJS by build:main.
+ */
+
+export type JsonPatchOperation =
+    | { op: 'add' | 'replace' | 'test'; path: string; value: any }
+    | { op: 'remove'; path: string }
+    | { op: 'move' | 'copy'; from: string; path: string };
+
+export class JsonPatchError extends Error {
+    readonly index: number | null;
+
+    constructor(message: string, index: number | null = null) {
+        super(index === null ? message : `Operation ${index}: ${message}`);
+        this.name = 'JsonPatchError';
+        this.index = index;
+    }
+}
+
+const ARRAY_INDEX = /^(0|[1-9][0-9]*)$/;
+
+// RFC 6901 JSON Pointer -> reference tokens
+function parsePointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    if (typeof pointer !== 'string' || !pointer.startsWith('/')) {
+        throw new JsonPatchError(`Invalid JSON Pointer "${pointer}"`);
+    }
+    return pointer.slice(1).split('/').map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isContainer(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object';
+}
+
+function arrayIndex(array: any[], token: string, allowEnd: boolean): number {
+    if (allowEnd && token === '-') return array.length;
+    if (!ARRAY_INDEX.test(token)) {
+        throw new JsonPatchError(`"${token}" is not an array index`);
+    }
+    const index = Number(token);
+    if (index > array.length || (!allowEnd && index === array.length)) {
+        throw new JsonPatchError(`Array index ${index} is out of range`);
+    }
+    return index;
+}
+
+function getChild(node: any, token: string): any {
+    if (Array.isArray(node)) {
+        return node[arrayIndex(node, token, false)];
+    }
+    if (!isContainer(node) || !Object.prototype.hasOwnProperty.call(node, token)) {
+        throw new JsonPatchError(`Path segment "${token}" does not exist`);
+    }
+    return node[token];
+}
+
+function getValue(doc: any, tokens: string[]): any {
+    return tokens.reduce((node, token) => getChild(node, token), doc);
+}
+
+// Copies the containers down to the parent of the last token and lets `leaf` produce the new parent
+function updateIn(node: any, tokens: string[], depth: number, leaf: (parent: any, token: string) => any): any {
+    if (!isContainer(node)) {
+        throw new JsonPatchError(`Path segment "${tokens[depth]}" does not exist`);
+    }
+    if (depth === tokens.length - 1) {
+        return leaf(node, tokens[depth]);
+    }
+
+    const token = tokens[depth];
+    const copy: any = Array.isArray(node) ? node.slice() : { ...node };
+    const key = Array.isArray(node) ? arrayIndex(node, token, false) : token;
+    copy[key] = updateIn(getChild(node, token), tokens, depth + 1, leaf);
+    return copy;
+}
+
+function addValue(doc: any, tokens: string[], value: any): any {
+    if (tokens.length === 0) return value;
+
+    return updateIn(doc, tokens, 0, (parent, token) => {
+        if (Array.isArray(parent)) {
+            const copy = parent.slice();
+            copy.splice(arrayIndex(parent, token, true), 0, value);
+            return copy;
+        }
+        return { ...parent, [token]: value };
+    });
+}
+
+function removeValue(doc: any, tokens: string[]): any {
+    if (tokens.length === 0) {
+        throw new JsonPatchError('Cannot remove the whole document');
+    }
+
+    return updateIn(doc, tokens, 0, (parent, token) => {
+        if (Array.isArray(parent)) {
+            const copy = parent.slice();
+            copy.splice(arrayIndex(parent, token, false), 1);
+            return copy;
+        }
+        getChild(parent, token);
+        const copy = { ...parent };
+        delete copy[token];
+        return copy;
+    });
+}
+
+function replaceValue(doc: any, tokens: string[], value: any): any {
+    if (tokens.length === 0) return value;
+
+    return updateIn(doc, tokens, 0, (parent, token) => {
+        getChild(parent, token);
+        const copy: any = Array.isArray(parent) ? parent.slice() : { ...parent };
+        copy[Array.isArray(parent) ? Number(token) : token] = value;
+        return copy;
+    });
+}
+
+function deepEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length &&
+        keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+}
+
+const OPS_WITH_VALUE = ['add', 'replace', 'test'];
+const OPS_WITH_FROM = ['move', 'copy'];
+const OPS = [...OPS_WITH_VALUE, ...OPS_WITH_FROM, 'remove'];
+
+function isPointer(value: unknown): value is string {
+    return typeof value === 'string' && (value === '' || value.startsWith('/'));
+}
+
+function validateOperation(operation: any): void {
+    if (!isContainer(operation) || Array.isArray(operation)) {
+        throw new JsonPatchError('Operation must be an object');
+    }
+    if (!OPS.includes(operation.op)) {
+        throw new JsonPatchError(`Unknown op "${operation.op}"`);
+    }
+    if (!isPointer(operation.path)) {
+        throw new JsonPatchError(`${operation.op} requires a JSON Pointer path`);
+    }
+    if (OPS_WITH_FROM.includes(operation.op) && !isPointer(operation.from)) {
+        throw new JsonPatchError(`${operation.op} requires a JSON Pointer from`);
+    }
+    if (OPS_WITH_VALUE.includes(operation.op) && !('value' in operation)) {
+        throw new JsonPatchError(`${operation.op} requires a value`);
+    }
+}
+
+/**
+ * Checks that a patch is an array of well-formed operations without applying it, so callers can tell
+ * a malformed patch (rejected as a bad request) from one that does not fit the document.
+ */
+export function validateJsonPatch(operations: unknown): asserts operations is JsonPatchOperation[] {
+    if (!Array.isArray(operations)) {
+        throw new JsonPatchError('Patch must be an array of operations');
+    }
+    operations.forEach((operation, index) => {
+        try {
+            validateOperation(operation);
+        } catch (error) {
+            throw new JsonPatchError((error as Error).message, index);
+        }
+    });
+}
+
+function applyOperation(doc: any, operation: JsonPatchOperation): any {
+    const tokens = parsePointer(operation.path);
+
+    switch (operation.op) {
+        case 'add':
+            return addValue(doc, tokens, operation.value);
+        case 'remove':
+            return removeValue(doc, tokens);
+        case 'replace':
+            return replaceValue(doc, tokens, operation.value);
+        case 'move': {
+            if (operation.from === operation.path) return doc;
+            if (operation.path.startsWith(`${operation.from}/`)) {
+                throw new JsonPatchError('Cannot move a value into one of its children');
+            }
+            const fromTokens = parsePointer(operation.from);
+            const value = getValue(doc, fromTokens);
+            return addValue(removeValue(doc, fromTokens), tokens, value);
+        }
+        case 'copy':
+            return addValue(doc, tokens, getValue(doc, parsePointer(operation.from)));
+        case 'test':
+            if (!deepEqual(getValue(doc, tokens), operation.value)) {
+                throw new JsonPatchError(`Test failed at "${operation.path}"`);
+            }
+            return doc;
+        default:
+            throw new JsonPatchError(`Unknown op "${(operation as any).op}"`);
+    }
+}
+
+export function applyJsonPatch<T>(doc: T, operations: JsonPatchOperation[]): T {
+    validateJsonPatch(operations);
+
+    return operations.reduce((current: any, operation, index) => {
+        try {
+            return applyOperation(current, operation);
+        } catch (error) {
+            if (error instanceof JsonPatchError && error.index === null) {
+                throw new JsonPatchError(error.message, index);
+            }
+            throw error;
+        }
+    }, doc);
+}
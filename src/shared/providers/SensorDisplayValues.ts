@@ -0,0 +1,73 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { RiveConfig, SensorPayload } from '../interfaces/VirtualDisplayDataProvider';
+
+/**
+ * Adds displayValue strings to a rive_sensor payload using the label/unit settings
+ * of the sensor elements in the current layout. Shared by the browser data providers.
+ */
+export function enhanceSensorDataWithDisplayValues(sensorPayload: any, config: RiveConfig | null): SensorPayload {
+    if (!config?.frameElements) return sensorPayload;
+
+    const enhanced = JSON.parse(JSON.stringify(sensorPayload));
+    const sensorConfigs = new Map<string, any>();
+
+    if (Array.isArray(config.frameElements)) {
+        config.frameElements.forEach((element: any) => {
+            if (element.type === 'sensor' && element.properties?.sensorTag) {
+                sensorConfigs.set(element.properties.sensorTag, element.properties);
+            }
+        });
+    }
+
+    Object.entries(enhanced.sensors).forEach(([sensorTag, sensorData]: [string, any]) => {
+        const sensorConfig = sensorConfigs.get(sensorTag);
+
+        if (sensorConfig) {
+            const displayValue = buildDisplayValue(
+                sensorData.value,
+                sensorData.unit || '',
+                sensorConfig.showLabel ? sensorConfig.placeholderSensorLabel : null,
+                sensorConfig.showUnit || false,
+                sensorConfig.showLabel || false
+            );
+
+            enhanced.sensors[sensorTag] = {
+                ...sensorData,
+                displayValue: displayValue
+            };
+        } else {
+            enhanced.sensors[sensorTag] = {
+                ...sensorData,
+                displayValue: `${sensorData.value}${sensorData.unit ? ' ' + sensorData.unit : ''}`
+            };
+        }
+    });
+
+    return enhanced;
+}
+
+export function buildDisplayValue(value: any, unit: string, label: string | null, showUnit: boolean, showLabel: boolean): string {
+    const parts: string[] = [];
+    if (showLabel && label) parts.push(label);
+    parts.push(value.toString());
+    if (showUnit && unit) parts.push(unit);
+    return parts.join(' ');
+}
@@ -0,0 +1,243 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { DeviceEvent } from '../interfaces/VirtualDisplayDataProvider';
+import { StreamedDataProvider } from './StreamedDataProvider';
+import { getReconnectDelay } from './WebSocketPushDataProvider';
+import { postDeviceEvent } from './DeviceEvents';
+
+export const SSE_EVENT_TYPES = {
+    CONFIG: 'config',
+    CONFIG_PATCH: 'config_patch',
+    SENSOR: 'sensor',
+    SENSOR_DELTA: 'sensor_delta'
+} as const;
+
+interface SseDataProviderOptions {
+    deviceId?: string;
+    enabled?: boolean;
+    // Defaults to /api/connections/device/{deviceId}/events on the page's host
+    url?: string;
+    // Consecutive failures, before the first successful connection, after which onGiveUp is called
+    maxInitialAttempts?: number;
+    onGiveUp?: () => void;
+}
+
+/**
+ * Server-Sent Events provider for networks whose proxies block WebSocket upgrades.
+ * The server streams `event: config` (rive_config) and `event: sensor` (rive_sensor) messages,
+ * each with an `id:` so a dropped stream can resume where it left off. `event: config_patch`
+ * (rive_config_patch) and `event: sensor_delta` (rive_sensor_delta) update them in place.
+ *
+ * EventSource retries transient drops itself and sends Last-Event-ID. When it gives up
+ * (an HTTP error closes the stream) the provider reopens it with backoff, passing the last id
+ * as a lastEventId query parameter because EventSource cannot set request headers.
+ */
+export class SseDataProvider extends StreamedDataProvider {
+    private deviceId?: string;
+    private enabled: boolean = true;
+    private url?: string;
+    private maxInitialAttempts: number;
+    private onGiveUp?: () => void;
+
+    private source: EventSource | null = null;
+    private shouldReconnect: boolean = false;
+    private reconnectTimer?: number;
+    private attempt: number = 0;
+    private hasConnected: boolean = false;
+    private lastEventId: string | null = null;
+
+    constructor(options: SseDataProviderOptions = {}) {
+        super('SseDataProvider');
+        this.deviceId = options.deviceId;
+        this.enabled = options.enabled ?? true;
+        this.url = options.url;
+        this.maxInitialAttempts = options.maxInitialAttempts ?? 3;
+        this.onGiveUp = options.onGiveUp;
+    }
+
+    // Event streams are one-way, so events go back over REST
+    send(event: DeviceEvent): void {
+        if (!this.enabled) return;
+        postDeviceEvent(this.deviceId, event, 'SseDataProvider');
+    }
+
+    connect(): void {
+        if (!this.enabled) {
+            this.setConnectionStatus('disabled');
+            return;
+        }
+        if (!this.deviceId || this.source) return;
+
+        this.shouldReconnect = true;
+        this.attempt = 0;
+        this.clearReconnectTimer();
+        this.openStream();
+    }
+
+    disconnect(): void {
+        console.log('[SseDataProvider] Disconnect called');
+        this.shouldReconnect = false;
+        this.clearReconnectTimer();
+        this.closeStream();
+        this.setConnectionStatus('disconnected');
+    }
+
+    cleanup(): void {
+        // Viewers clean up shortly after disconnecting; a connect() in between means it was remounted
+        if (this.shouldReconnect) {
+            console.log('[SseDataProvider] Cleanup skipped (reconnected since disconnect)');
+            return;
+        }
+
+        console.log('[SseDataProvider] Cleanup called');
+        this.clearReconnectTimer();
+        this.closeStream();
+        this.clearCallbacks();
+        this.currentConfig = null;
+        this.lastEventId = null;
+    }
+
+    private resolveUrl(): string {
+        const base = this.url ?? `/api/connections/device/${encodeURIComponent(this.deviceId!)}/events`;
+        if (!this.lastEventId) return base;
+
+        const separator = base.includes('?') ? '&' : '?';
+        return `${base}${separator}lastEventId=${encodeURIComponent(this.lastEventId)}`;
+    }
+
+    private openStream(): void {
+        this.setConnectionStatus('connecting');
+
+        let source: EventSource;
+        try {
+            source = new EventSource(this.resolveUrl());
+        } catch (error) {
+            console.error('[SseDataProvider] Could not open stream:', error);
+            this.handleStreamClosed();
+            return;
+        }
+        this.source = source;
+
+        source.onopen = () => {
+            if (this.source !== source) return;
+            this.attempt = 0;
+            this.hasConnected = true;
+            this.setConnectionStatus('connected');
+        };
+
+        source.addEventListener(SSE_EVENT_TYPES.CONFIG, (event) => {
+            if (this.source !== source) return;
+            this.handleEvent(event as MessageEvent, (payload) => this.processConfigData(payload));
+        });
+
+        source.addEventListener(SSE_EVENT_TYPES.CONFIG_PATCH, (event) => {
+            if (this.source !== source) return;
+            this.handleEvent(event as MessageEvent, (payload) => this.processConfigPatch(payload));
+        });
+
+        source.addEventListener(SSE_EVENT_TYPES.SENSOR, (event) => {
+            if (this.source !== source) return;
+            this.handleEvent(event as MessageEvent, (payload) => this.processSensorData(payload));
+        });
+
+        source.addEventListener(SSE_EVENT_TYPES.SENSOR_DELTA, (event) => {
+            if (this.source !== source) return;
+            this.handleEvent(event as MessageEvent, (payload) => this.processSensorDelta(payload));
+        });
+
+        source.onerror = () => {
+            if (this.source !== source) return;
+
+            // Once connected, the browser retries drops on its own and sends Last-Event-ID
+            if (source.readyState === EventSource.CONNECTING && this.hasConnected) {
+                this.setConnectionStatus('connecting');
+                return;
+            }
+
+            this.source = null;
+            source.close();
+            console.log('[SseDataProvider] Stream closed');
+            this.handleStreamClosed();
+        };
+    }
+
+    private closeStream(): void {
+        const source = this.source;
+        if (!source) return;
+
+        this.source = null;
+        source.close();
+    }
+
+    // A stream opened without a last event id starts with the current layout
+    protected requestFullConfig(): void {
+        this.lastEventId = null;
+        if (!this.source) return;
+
+        this.closeStream();
+        this.openStream();
+    }
+
+    private handleStreamClosed(): void {
+        if (!this.shouldReconnect) {
+            this.setConnectionStatus('disconnected');
+            return;
+        }
+
+        this.setConnectionStatus('error');
+        this.attempt++;
+
+        if (!this.hasConnected && this.attempt >= this.maxInitialAttempts && this.onGiveUp) {
+            console.warn(`[SseDataProvider] No connection after ${this.attempt} attempts, giving up`);
+            this.shouldReconnect = false;
+            this.onGiveUp();
+            return;
+        }
+
+        const delay = getReconnectDelay(this.attempt);
+        console.log(`[SseDataProvider] Reopening stream in ${delay}ms (attempt ${this.attempt})`);
+        this.reconnectTimer = window.setTimeout(() => {
+            this.reconnectTimer = undefined;
+            if (this.shouldReconnect) this.openStream();
+        }, delay);
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
+    private handleEvent(event: MessageEvent, process: (payload: any) => void): void {
+        if (event.lastEventId) {
+            this.lastEventId = event.lastEventId;
+        }
+
+        let payload: any;
+        try {
+            payload = JSON.parse(event.data);
+        } catch (error) {
+            console.error(`[SseDataProvider] Invalid JSON in ${event.type} event:`, error);
+            return;
+        }
+        process(payload);
+    }
+}
@@ -0,0 +1,83 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { RiveConfig } from '../interfaces/VirtualDisplayDataProvider';
+import { DataProviderBase } from './DataProviderBase';
+import { enhanceSensorDataWithDisplayValues } from './SensorDisplayValues';
+import { applyJsonPatch } from './JsonPatch';
+
+// While waiting for the full layout, further failed patches ask for it again at most this often
+const RESYNC_RETRY_MS = 5000;
+
+/**
+ * Layout and sensor state for providers that relay a device stream from the server
+ * (WebSocketPushDataProvider, SseDataProvider). The transport decodes each document and passes
+ * it to the matching process* method; rive_config_patch and rive_sensor_delta documents update
+ * the last layout and tags in place. A patch that doesn't apply means an update was missed, so
+ * the transport is asked for the full rive_config through requestFullConfig().
+ */
+export abstract class StreamedDataProvider extends DataProviderBase {
+    private resyncRequestedAt: number | null = null;
+
+    // Gets the server to send the current rive_config again
+    protected abstract requestFullConfig(): void;
+
+    protected processConfigData(configPayload: any): void {
+        const isRiveConfig = configPayload?.type === 'rive_config' ||
+            (configPayload?.frameConfig && configPayload?.frameElements);
+        if (!isRiveConfig) return;
+
+        this.resyncRequestedAt = null;
+        this.currentConfig = configPayload as RiveConfig;
+        this.emitConfig(configPayload as RiveConfig);
+    }
+
+    // rive_config_patch carries RFC 6902 operations against the layout this provider last emitted
+    protected processConfigPatch(patchPayload: any): void {
+        let patched: RiveConfig;
+        try {
+            if (!this.currentConfig) throw new Error('no layout to patch');
+            patched = applyJsonPatch(this.currentConfig, patchPayload?.patch);
+        } catch (error) {
+            this.resyncConfig((error as Error).message);
+            return;
+        }
+        this.processConfigData(patched);
+    }
+
+    private resyncConfig(reason: string): void {
+        const now = Date.now();
+        if (this.resyncRequestedAt !== null && now - this.resyncRequestedAt < RESYNC_RETRY_MS) return;
+        this.resyncRequestedAt = now;
+
+        console.warn(`[${this.label}] Config patch failed, requesting full config:`, reason);
+        this.requestFullConfig();
+    }
+
+    protected processSensorData(sensorPayload: any): void {
+        if (sensorPayload?.type !== 'rive_sensor' || !sensorPayload?.sensors) return;
+
+        this.emitSensorData(enhanceSensorDataWithDisplayValues(sensorPayload, this.currentConfig));
+    }
+
+    // Consumers merge sensor payloads per tag, so a delta is just a smaller update
+    protected processSensorDelta(deltaPayload: any): void {
+        this.processSensorData({ ...deltaPayload, type: 'rive_sensor' });
+    }
+}
@@ -0,0 +1,278 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { RiveConfig, SensorPayload, DeviceEvent } from '../interfaces/VirtualDisplayDataProvider';
+import type { PlacedElement } from '../components/frameengine2/types/FrameEngine2_LayoutTypes';
+import { scanSensorTagOutputs } from '../components/frameengine2/FrameEngine2_SensorTagScanner';
+import { enhanceSensorDataWithDisplayValues } from './SensorDisplayValues';
+import { DataProviderBase } from './DataProviderBase';
+
+export type SyntheticGeneratorType = 'sine' | 'random-walk' | 'step' | 'sawtooth' | 'csv';
+
+export interface SyntheticGeneratorConfig {
+    type: SyntheticGeneratorType;
+    /** Value range (default 0-100) */
+    min?: number;
+    max?: number;
+    /** Seconds per cycle for sine and sawtooth, seconds per level for step (default 10) */
+    period?: number;
+    /** Levels cycled by the step generator (default [min, max]) */
+    levels?: number[];
+    /** Largest change per update for random-walk (default 5% of the range) */
+    stepSize?: number;
+    /** Updates per second (default 1) */
+    rate?: number;
+    unit?: string;
+    decimals?: number;
+    /** CSV text with a header row; the column is a header name or index (default: the tag name) */
+    csv?: string;
+    column?: string | number;
+}
+
+interface SyntheticDataProviderOptions {
+    /** Layout to animate; can also be set later with loadLayout() */
+    config?: RiveConfig | null;
+    /** Generators per sensor tag; tags without one get a default cycling through the generator types */
+    generators?: Record<string, SyntheticGeneratorConfig>;
+    /** CSV text used by 'csv' generators that don't carry their own */
+    csv?: string | null;
+    enabled?: boolean;
+}
+
+// Default generators for tags without an explicit one, so a demo layout shows varied motion
+const DEFAULT_GENERATORS: SyntheticGeneratorConfig[] = [
+    { type: 'sine', period: 12 },
+    { type: 'random-walk' },
+    { type: 'sawtooth', period: 20 },
+    { type: 'step', period: 5, levels: [20, 50, 80] }
+];
+
+// Shortest interval between generated payloads; tags that are due are sent together
+const TICK_MS = 50;
+
+interface TagState {
+    config: SyntheticGeneratorConfig;
+    nextUpdate: number;
+    value: number;
+    csvValues?: Array<number | string>;
+    csvIndex: number;
+}
+
+/**
+ * Parses one CSV column into values; numeric cells become numbers
+ */
+export function parseCsvColumn(csv: string, column: string | number): Array<number | string> {
+    const rows = csv.split(/\r?\n/).filter(line => line.trim() !== '').map(line => line.split(',').map(cell => cell.trim()));
+    if (rows.length < 2) return [];
+
+    const header = rows[0];
+    const index = typeof column === 'number' ? column : header.indexOf(column);
+    if (index < 0) return [];
+
+    return rows.slice(1)
+        .map(row => row[index])
+        .filter(cell => cell !== undefined && cell !== '')
+        .map(cell => (cell !== '' && !isNaN(Number(cell)) ? Number(cell) : cell));
+}
+
+/**
+ * Generates rive_sensor payloads for every tag a layout binds, without a JunctionRelay server.
+ * Used for designing and demoing layouts.
+ */
+export class SyntheticDataProvider extends DataProviderBase {
+    private enabled: boolean = true;
+    private timer?: ReturnType<typeof setInterval>;
+    private startedAt: number = 0;
+
+    private generators: Record<string, SyntheticGeneratorConfig>;
+    private csv: string;
+    private tags: Map<string, TagState> = new Map();
+
+    constructor(options: SyntheticDataProviderOptions = {}) {
+        super('SyntheticDataProvider');
+        this.enabled = options.enabled ?? true;
+        this.generators = { ...(options.generators || {}) };
+        this.csv = options.csv || '';
+        if (options.config) {
+            this.loadLayout(options.config);
+        }
+    }
+
+    // There is no host to receive events; log them so interactions can be checked while designing
+    send(event: DeviceEvent): void {
+        console.log(`[SyntheticDataProvider] Device event ${event.type}`, event);
+    }
+
+    connect(): void {
+        if (!this.enabled) {
+            this.setConnectionStatus('disabled');
+            return;
+        }
+        if (this.timer) return;
+
+        this.startedAt = Date.now();
+        this.timer = setInterval(() => this.tick(), TICK_MS);
+        this.setConnectionStatus('connected');
+
+        if (this.currentConfig) {
+            this.emitConfig(this.currentConfig);
+        }
+    }
+
+    disconnect(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        this.setConnectionStatus('disconnected');
+    }
+
+    cleanup(): void {
+        // Viewers clean up shortly after disconnecting; a connect() in between means it was remounted
+        if (this.timer) return;
+
+        this.clearCallbacks();
+    }
+
+    /**
+     * Loads a layout, finds its bound sensor tags and (re)starts their generators
+     */
+    loadLayout(config: RiveConfig): void {
+        this.currentConfig = config;
+
+        const background = (config.frameConfig?.background || {}) as any;
+        const elements = (config.frameElements || []).map((element: any) => ({
+            id: element.id,
+            type: element.type,
+            properties: element.properties || {}
+        })) as PlacedElement[];
+        const outputs = scanSensorTagOutputs(
+            { riveInputs: background.riveInputs, riveBindings: background.riveBindings },
+            elements
+        );
+
+        this.tags.clear();
+        Array.from(outputs.keys()).sort().forEach((tag, index) => {
+            const generator = this.generators[tag] ?? DEFAULT_GENERATORS[index % DEFAULT_GENERATORS.length];
+            this.tags.set(tag, this.createTagState(tag, generator));
+        });
+        console.log(`[SyntheticDataProvider] Generating data for ${this.tags.size} tags`);
+
+        if (this.isConnected()) {
+            this.emitConfig(config);
+        }
+    }
+
+    /**
+     * Replaces the generator of one tag
+     */
+    setGenerator(tag: string, generator: SyntheticGeneratorConfig): void {
+        this.generators[tag] = generator;
+        if (this.tags.has(tag)) {
+            this.tags.set(tag, this.createTagState(tag, generator));
+        }
+    }
+
+    getTags(): string[] {
+        return Array.from(this.tags.keys());
+    }
+
+    private createTagState(tag: string, config: SyntheticGeneratorConfig): TagState {
+        const min = config.min ?? 0;
+        const max = config.max ?? 100;
+        const state: TagState = { config, nextUpdate: 0, value: (min + max) / 2, csvIndex: 0 };
+
+        if (config.type === 'csv') {
+            state.csvValues = parseCsvColumn(config.csv || this.csv, config.column ?? tag);
+            if (state.csvValues.length === 0) {
+                console.warn(`[SyntheticDataProvider] No CSV values for tag ${tag}`);
+            }
+        }
+        return state;
+    }
+
+    private tick(): void {
+        if (!this.currentConfig || this.tags.size === 0) return;
+
+        const now = Date.now();
+        const sensors: SensorPayload['sensors'] = {};
+
+        this.tags.forEach((state, tag) => {
+            if (now < state.nextUpdate) return;
+            state.nextUpdate = now + 1000 / Math.max(0.01, state.config.rate ?? 1);
+
+            const value = this.nextValue(state, (now - this.startedAt) / 1000);
+            if (value === null) return;
+
+            const decimals = state.config.decimals ?? 1;
+            sensors[tag] = {
+                value: typeof value === 'number' ? Number(value.toFixed(decimals)) : value as any,
+                unit: state.config.unit ?? '',
+                displayValue: typeof value === 'number' ? value.toFixed(decimals) : String(value)
+            };
+        });
+
+        if (Object.keys(sensors).length === 0) return;
+
+        const payload = enhanceSensorDataWithDisplayValues({
+            type: 'rive_sensor',
+            screenId: this.currentConfig.screenId,
+            sensors
+        }, this.currentConfig);
+
+        this.emitSensorData(payload);
+    }
+
+    private nextValue(state: TagState, elapsed: number): number | string | null {
+        const { config } = state;
+        const min = config.min ?? 0;
+        const max = config.max ?? 100;
+        const range = max - min;
+        const period = Math.max(0.1, config.period ?? 10);
+
+        switch (config.type) {
+            case 'sine':
+                return min + range * (0.5 + 0.5 * Math.sin((2 * Math.PI * elapsed) / period));
+            case 'sawtooth':
+                return min + range * ((elapsed % period) / period);
+            case 'step': {
+                const levels = config.levels?.length ? config.levels : [min, max];
+                return levels[Math.floor(elapsed / period) % levels.length];
+            }
+            case 'random-walk': {
+                const stepSize = config.stepSize ?? range * 0.05;
+                state.value = Math.min(max, Math.max(min, state.value + (Math.random() * 2 - 1) * stepSize));
+                return state.value;
+            }
+            case 'csv': {
+                if (!state.csvValues?.length) return null;
+                const value = state.csvValues[state.csvIndex];
+                state.csvIndex = (state.csvIndex + 1) % state.csvValues.length;
+                return value;
+            }
+            default:
+                return null;
+        }
+    }
+
+    // The layout is loaded before connect(), which sends it to everyone already subscribed
+    protected canReplayConfig(): boolean {
+        return this.isConnected();
+    }
+}
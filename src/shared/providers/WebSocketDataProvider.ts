@@ -25,8 +25,11 @@ import {
     VirtualDisplayDataProvider,
     RiveConfig,
     SensorPayload,
-    ConnectionStatus
+    ConnectionStatus,
+    DeviceEvent
 } from '../interfaces/VirtualDisplayDataProvider';
+import { enhanceSensorDataWithDisplayValues } from './SensorDisplayValues';
+import { postDeviceEvent } from './DeviceEvents';
 
 export const POLL_RATE_PRESETS = {
     VERY_FAST: 100,
@@ -107,6 +110,11 @@ export class WebSocketDataProvider implements VirtualDisplayDataProvider {
         };
     }
 
+    send(event: DeviceEvent): void {
+        if (!this.enabled) return;
+        postDeviceEvent(this.deviceId, event, 'WebSocketDataProvider');
+    }
+
     connect(): void {
         if (!this.enabled || !this.isMountedRef) return;
         if (this.connectionStatus === 'connected' || this.connectionStatus === 'connecting') return;
@@ -321,7 +329,7 @@ export class WebSocketDataProvider implements VirtualDisplayDataProvider {
             const isValidSensor = sensorPayload?.type === 'rive_sensor' && sensorPayload?.sensors;
 
             if (isValidSensor && this.isMountedRef) {
-                const enhancedSensorPayload = this.enhanceSensorDataWithDisplayValues(sensorPayload);
+                const enhancedSensorPayload = enhanceSensorDataWithDisplayValues(sensorPayload, this.currentConfig);
                 this.sensorCallbacks.forEach((callback) => {
                     if (!this.isMountedRef) return;
                     try {
@@ -335,53 +343,4 @@ export class WebSocketDataProvider implements VirtualDisplayDataProvider {
             // Silent
         }
     }
-
-    private enhanceSensorDataWithDisplayValues(sensorPayload: any): any {
-        if (!this.currentConfig?.frameElements) return sensorPayload;
-
-        const enhanced = JSON.parse(JSON.stringify(sensorPayload));
-        const sensorConfigs = new Map<string, any>();
-
-        if (Array.isArray(this.currentConfig.frameElements)) {
-            this.currentConfig.frameElements.forEach((element: any) => {
-                if (element.type === 'sensor' && element.properties?.sensorTag) {
-                    sensorConfigs.set(element.properties.sensorTag, element.properties);
-                }
-            });
-        }
-
-        Object.entries(enhanced.sensors).forEach(([sensorTag, sensorData]: [string, any]) => {
-            const config = sensorConfigs.get(sensorTag);
-
-            if (config) {
-                const displayValue = this.buildDisplayValue(
-                    sensorData.value,
-                    sensorData.unit || '',
-                    config.showLabel ? config.placeholderSensorLabel : null,
-                    config.showUnit || false,
-                    config.showLabel || false
-                );
-
-                enhanced.sensors[sensorTag] = {
-                    ...sensorData,
-                    displayValue: displayValue
-                };
-            } else {
-                enhanced.sensors[sensorTag] = {
-                    ...sensorData,
-                    displayValue: `${sensorData.value}${sensorData.unit ? ' ' + sensorData.unit : ''}`
-                };
-            }
-        });
-
-        return enhanced;
-    }
-
-    private buildDisplayValue(value: any, unit: string, label: string | null, showUnit: boolean, showLabel: boolean): string {
-        const parts: string[] = [];
-        if (showLabel && label) parts.push(label);
-        parts.push(value.toString());
-        if (showUnit && unit) parts.push(unit);
-        return parts.join(' ');
-    }
-}
\ No newline at end of file
+}
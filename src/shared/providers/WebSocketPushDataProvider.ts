@@ -0,0 +1,255 @@
+﻿/*
+ * This file is part of JunctionRelay.
+ *
+ * Copyright (C) 2024–present Jonathan Mills, CatapultCase
+ *
+ * JunctionRelay is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * JunctionRelay is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with JunctionRelay. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { DeviceEvent } from '../interfaces/VirtualDisplayDataProvider';
+import { StreamedDataProvider } from './StreamedDataProvider';
+import { postDeviceEvent, stampDeviceEvent } from './DeviceEvents';
+
+export const RECONNECT_BACKOFF = {
+    INITIAL_DELAY: 500,
+    MAX_DELAY: 30000,
+    MULTIPLIER: 2,
+    JITTER: 0.2
+} as const;
+
+// Delay before reconnect attempt n (1-based), with jitter so a fleet does not reconnect in lockstep
+export function getReconnectDelay(attempt: number): number {
+    const base = Math.min(
+        RECONNECT_BACKOFF.MAX_DELAY,
+        RECONNECT_BACKOFF.INITIAL_DELAY * Math.pow(RECONNECT_BACKOFF.MULTIPLIER, attempt - 1)
+    );
+    const jitter = base * RECONNECT_BACKOFF.JITTER * (Math.random() * 2 - 1);
+    return Math.round(base + jitter);
+}
+
+interface WebSocketPushDataProviderOptions {
+    deviceId?: string;
+    enabled?: boolean;
+    // Defaults to /api/connections/device/{deviceId}/stream on the page's host
+    url?: string;
+    // Consecutive failures, before the first successful connection, after which onGiveUp is called
+    maxInitialAttempts?: number;
+    onGiveUp?: () => void;
+}
+
+/**
+ * Push-based provider: subscribes to a device over a WebSocket and receives rive_config and
+ * rive_sensor documents as the server relays them, instead of polling the REST endpoint.
+ * The server may also send a snapshot ({ configPayload, sensorPayload }) after each subscribe.
+ * rive_config_patch and rive_sensor_delta documents update the last layout and tags in place.
+ *
+ * Connection status follows the socket: 'connecting' while opening, 'connected' once open,
+ * 'error' after an unexpected close until the next attempt. Reconnects use exponential backoff
+ * and resend the subscription.
+ */
+export class WebSocketPushDataProvider extends StreamedDataProvider {
+    private deviceId?: string;
+    private enabled: boolean = true;
+    private url?: string;
+    private maxInitialAttempts: number;
+    private onGiveUp?: () => void;
+
+    private socket: WebSocket | null = null;
+    private shouldReconnect: boolean = false;
+    private reconnectTimer?: number;
+    private attempt: number = 0;
+    private hasConnected: boolean = false;
+
+    constructor(options: WebSocketPushDataProviderOptions = {}) {
+        super('WebSocketPushDataProvider');
+        this.deviceId = options.deviceId;
+        this.enabled = options.enabled ?? true;
+        this.url = options.url;
+        this.maxInitialAttempts = options.maxInitialAttempts ?? 3;
+        this.onGiveUp = options.onGiveUp;
+    }
+
+    // Goes over the socket when it is open, otherwise over REST so events aren't lost while reconnecting
+    send(event: DeviceEvent): void {
+        if (!this.enabled) return;
+        if (!this.sendMessage({ type: 'device_event', deviceId: this.deviceId, event: stampDeviceEvent(event) })) {
+            postDeviceEvent(this.deviceId, event, 'WebSocketPushDataProvider');
+        }
+    }
+
+    connect(): void {
+        if (!this.enabled) {
+            this.setConnectionStatus('disabled');
+            return;
+        }
+        if (!this.deviceId || this.socket) return;
+
+        this.shouldReconnect = true;
+        this.attempt = 0;
+        this.clearReconnectTimer();
+        this.openSocket();
+    }
+
+    disconnect(): void {
+        console.log('[WebSocketPushDataProvider] Disconnect called');
+        this.shouldReconnect = false;
+        this.clearReconnectTimer();
+        this.closeSocket();
+        this.setConnectionStatus('disconnected');
+    }
+
+    cleanup(): void {
+        // Viewers clean up shortly after disconnecting; a connect() in between means it was remounted
+        if (this.shouldReconnect) {
+            console.log('[WebSocketPushDataProvider] Cleanup skipped (reconnected since disconnect)');
+            return;
+        }
+
+        console.log('[WebSocketPushDataProvider] Cleanup called');
+        this.clearReconnectTimer();
+        this.closeSocket();
+        this.clearCallbacks();
+        this.currentConfig = null;
+    }
+
+    private resolveUrl(): string {
+        if (this.url) return this.url;
+        const scheme = window.location.protocol === 'https:' ? 'wss' : 'ws';
+        return `${scheme}://${window.location.host}/api/connections/device/${encodeURIComponent(this.deviceId!)}/stream`;
+    }
+
+    private openSocket(): void {
+        this.setConnectionStatus('connecting');
+
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(this.resolveUrl());
+        } catch (error) {
+            console.error('[WebSocketPushDataProvider] Could not open socket:', error);
+            this.handleSocketClosed();
+            return;
+        }
+        this.socket = socket;
+
+        socket.onopen = () => {
+            if (this.socket !== socket) return;
+            this.attempt = 0;
+            this.hasConnected = true;
+            this.subscribe();
+            this.setConnectionStatus('connected');
+        };
+
+        socket.onmessage = (event) => {
+            if (this.socket !== socket) return;
+            this.handleMessage(event.data);
+        };
+
+        socket.onerror = () => {
+            // A close event always follows; reconnection is handled there
+            console.warn('[WebSocketPushDataProvider] Socket error');
+        };
+
+        socket.onclose = (event) => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            console.log(`[WebSocketPushDataProvider] Socket closed (${event.code})`);
+            this.handleSocketClosed();
+        };
+    }
+
+    private closeSocket(): void {
+        const socket = this.socket;
+        if (!socket) return;
+
+        this.socket = null;
+        try {
+            socket.close(1000, 'client disconnect');
+        } catch (e) {
+            // Ignore close errors
+        }
+    }
+
+    // Sent on every open, so a reconnect picks the subscription back up
+    private subscribe(): void {
+        this.sendMessage({ type: 'subscribe', deviceId: this.deviceId });
+    }
+
+    // Resubscribing makes the server send its snapshot again; a closed socket resubscribes when it opens
+    protected requestFullConfig(): void {
+        this.subscribe();
+    }
+
+    private sendMessage(message: any): boolean {
+        if (this.socket?.readyState !== WebSocket.OPEN) return false;
+        this.socket.send(JSON.stringify(message));
+        return true;
+    }
+
+    private handleSocketClosed(): void {
+        if (!this.shouldReconnect) {
+            this.setConnectionStatus('disconnected');
+            return;
+        }
+
+        this.setConnectionStatus('error');
+        this.attempt++;
+
+        if (!this.hasConnected && this.attempt >= this.maxInitialAttempts && this.onGiveUp) {
+            console.warn(`[WebSocketPushDataProvider] No connection after ${this.attempt} attempts, giving up`);
+            this.shouldReconnect = false;
+            this.onGiveUp();
+            return;
+        }
+
+        const delay = getReconnectDelay(this.attempt);
+        console.log(`[WebSocketPushDataProvider] Reconnecting in ${delay}ms (attempt ${this.attempt})`);
+        this.reconnectTimer = window.setTimeout(() => {
+            this.reconnectTimer = undefined;
+            if (this.shouldReconnect) this.openSocket();
+        }, delay);
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
+    private handleMessage(data: any): void {
+        if (typeof data !== 'string') return;
+
+        let message: any;
+        try {
+            message = JSON.parse(data);
+        } catch (error) {
+            console.error('[WebSocketPushDataProvider] Invalid JSON message:', error);
+            return;
+        }
+
+        if (message?.type === 'rive_config') {
+            this.processConfigData(message);
+        } else if (message?.type === 'rive_sensor') {
+            this.processSensorData(message);
+        } else if (message?.type === 'rive_config_patch') {
+            this.processConfigPatch(message);
+        } else if (message?.type === 'rive_sensor_delta') {
+            this.processSensorDelta(message);
+        } else if (message && ('configPayload' in message || 'sensorPayload' in message)) {
+            // Snapshot of the device stream, same shape as the REST endpoint
+            if (message.configPayload) this.processConfigData(message.configPayload);
+            if (message.sensorPayload) this.processSensorData(message.sensorPayload);
+        }
+    }
+}
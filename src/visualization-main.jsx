@@ -1,9 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { VirtualScreenViewer2Component } from './shared/pages/VirtualScreenViewer2';
 import { ElectronDataProvider } from '../ElectronDataProvider';
+import { SyntheticDataProvider } from './shared/providers/SyntheticDataProvider';
 import { FpsCounter } from './components/FpsCounter';
+import { FramebufferDisplay } from './components/FramebufferDisplay';
+import { PairingCodeOverlay } from './components/PairingCodeOverlay';
+import { CachedLayoutIndicator } from './components/CachedLayoutIndicator';
 
 const deviceData = {
   name: "JunctionRelay Virtual Device",
@@ -14,6 +18,9 @@ function VisualizationApp() {
   const [showFps, setShowFps] = useState(false);
   const [cursorVisible, setCursorVisible] = useState(true);
   const [fpsPosition, setFpsPosition] = useState('top-left');
+  const [displayMode, setDisplayMode] = useState('frameengine');
+  const [brightness, setBrightness] = useState(1);
+  const [demo, setDemo] = useState(null);
 
   useEffect(() => {
     const { ipcRenderer } = require('electron');
@@ -38,6 +45,23 @@ function VisualizationApp() {
       setFpsPosition(position);
     };
 
+    // Listen for switches between FrameEngine2 layouts and raw framebuffer output
+    const handleDisplayMode = (_event, mode) => {
+      console.log('[VisualizationApp] Display mode:', mode);
+      setDisplayMode(mode);
+    };
+
+    // Listen for brightness set by host commands (0-1)
+    const handleBrightness = (_event, value) => {
+      setBrightness(value);
+    };
+
+    // Listen for tray demo mode ({ config, generators, csv }, or null to go back to the host's data)
+    const handleDemoMode = (_event, value) => {
+      console.log('[VisualizationApp] Demo mode:', value ? 'on' : 'off');
+      setDemo(value);
+    };
+
     // Handle Escape key to close window
     const handleKeyDown = (event) => {
       console.log('[VisualizationApp] Key pressed:', event.key, event.code);
@@ -53,6 +77,9 @@ function VisualizationApp() {
     console.log('[VisualizationApp] Adding keyboard listeners');
     ipcRenderer.on('set-cursor-visibility', handleCursorVisibility);
     ipcRenderer.on('set-fps-position', handleFpsPosition);
+    ipcRenderer.on('set-display-mode', handleDisplayMode);
+    ipcRenderer.on('set-brightness', handleBrightness);
+    ipcRenderer.on('set-demo-mode', handleDemoMode);
     window.addEventListener('keydown', handleKeyDown, true); // Use capture phase
     document.addEventListener('keydown', handleKeyDown, true);
 
@@ -60,11 +87,35 @@ function VisualizationApp() {
       console.log('[VisualizationApp] Removing keyboard listeners');
       ipcRenderer.off('set-cursor-visibility', handleCursorVisibility);
       ipcRenderer.off('set-fps-position', handleFpsPosition);
+      ipcRenderer.off('set-display-mode', handleDisplayMode);
+      ipcRenderer.off('set-brightness', handleBrightness);
+      ipcRenderer.off('set-demo-mode', handleDemoMode);
       window.removeEventListener('keydown', handleKeyDown, true);
       document.removeEventListener('keydown', handleKeyDown, true);
     };
   }, []);
 
+  // Report the frame rate to main for the /metrics endpoint, whether or not the overlay is shown
+  useEffect(() => {
+    const { ipcRenderer } = require('electron');
+    let frames = 0;
+    let windowStart = performance.now();
+    let rafId;
+
+    const countFrame = (now) => {
+      frames++;
+      if (now - windowStart >= 5000) {
+        ipcRenderer.send('renderer-fps', Math.round((frames * 10000) / (now - windowStart)) / 10);
+        frames = 0;
+        windowStart = now;
+      }
+      rafId = requestAnimationFrame(countFrame);
+    };
+
+    rafId = requestAnimationFrame(countFrame);
+    return () => cancelAnimationFrame(rafId);
+  }, []);
+
   // Get or create singleton provider
   const dataProvider = ElectronDataProvider.getInstance({ enabled: true });
 
@@ -77,6 +128,21 @@ function VisualizationApp() {
     };
   }, [dataProvider]);
 
+  // The viewer connects and cleans up the demo provider like any other provider
+  const demoProvider = useMemo(() => (
+    demo ? new SyntheticDataProvider({ config: demo.config, generators: demo.generators, csv: demo.csv }) : null
+  ), [demo]);
+
+  // The singleton doesn't replay the last layout, so ask main for it after leaving demo mode
+  const wasDemo = useRef(false);
+  useEffect(() => {
+    if (wasDemo.current && !demoProvider) {
+      const { ipcRenderer } = require('electron');
+      ipcRenderer.send('request-cached-data');
+    }
+    wasDemo.current = !!demoProvider;
+  }, [demoProvider]);
+
   return (
     <BrowserRouter>
       <div
@@ -84,17 +150,25 @@ function VisualizationApp() {
           cursor: cursorVisible ? 'default' : 'none',
           width: '100%',
           height: '100%',
+          filter: brightness < 1 ? `brightness(${brightness})` : undefined,
         }}
       >
-        <VirtualScreenViewer2Component
-          deviceId="electron-virtual-device"
-          deviceData={deviceData}
-          isStandalone={true}
-          showControls={showFps}
-          dataProvider={dataProvider}
-        />
+        {/* Kept mounted in framebuffer mode so config subscriptions survive the switch */}
+        <div style={{ display: displayMode === 'frameengine' ? 'contents' : 'none' }}>
+          <VirtualScreenViewer2Component
+            deviceId="electron-virtual-device"
+            deviceData={deviceData}
+            isStandalone={true}
+            showControls={showFps}
+            dataProvider={demoProvider || dataProvider}
+          />
+        </div>
+        <FramebufferDisplay visible={displayMode === 'framebuffer'} />
         <FpsCounter visible={showFps} position={fpsPosition} />
+        <CachedLayoutIndicator visible={!demo && displayMode === 'frameengine'} />
       </div>
+      {/* Outside the brightness filter so the code stays readable on a dimmed screen */}
+      <PairingCodeOverlay />
     </BrowserRouter>
   );
 }
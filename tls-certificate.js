@@ -0,0 +1,73 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+
+// Generated certificates are long-lived; hosts pin the fingerprint rather than trusting a CA
+const SELF_SIGNED_DAYS = 3650;
+
+function describeCertificate(cert) {
+  const x509 = new crypto.X509Certificate(cert);
+  return {
+    fingerprint: x509.fingerprint256,
+    subject: x509.subject,
+    validTo: x509.validTo
+  };
+}
+
+function generateSelfSigned() {
+  const selfsigned = require('selfsigned');
+
+  // Native key generation is much faster than forge's on a Pi
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs1', format: 'pem' }
+  });
+
+  const host = os.hostname();
+  const pems = selfsigned.generate([{ name: 'commonName', value: host }], {
+    days: SELF_SIGNED_DAYS,
+    algorithm: 'sha256',
+    keyPair: { publicKey, privateKey },
+    extensions: [
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+      { name: 'extKeyUsage', serverAuth: true },
+      { name: 'subjectAltName', altNames: [{ type: 2, value: host }, { type: 2, value: 'localhost' }] }
+    ]
+  });
+
+  return { cert: pems.cert, key: pems.private };
+}
+
+// Loads the user's certificate/key when both paths are set, otherwise the self-signed pair
+// in storeDir, generating it on first use. Returns { cert, key, fingerprint, subject, validTo, selfSigned }.
+function loadOrCreateCertificate({ certPath, keyPath, storeDir }) {
+  if (certPath && keyPath) {
+    const cert = fs.readFileSync(certPath, 'utf8');
+    const key = fs.readFileSync(keyPath, 'utf8');
+    return { cert, key, ...describeCertificate(cert), selfSigned: false };
+  }
+
+  const storedCertPath = path.join(storeDir, 'cert.pem');
+  const storedKeyPath = path.join(storeDir, 'key.pem');
+
+  if (fs.existsSync(storedCertPath) && fs.existsSync(storedKeyPath)) {
+    const cert = fs.readFileSync(storedCertPath, 'utf8');
+    const key = fs.readFileSync(storedKeyPath, 'utf8');
+    return { cert, key, ...describeCertificate(cert), selfSigned: true };
+  }
+
+  console.log('[TLS] Generating self-signed certificate...');
+  const { cert, key } = generateSelfSigned();
+  fs.mkdirSync(storeDir, { recursive: true });
+  fs.writeFileSync(storedCertPath, cert);
+  fs.writeFileSync(storedKeyPath, key, { mode: 0o600 });
+
+  const info = describeCertificate(cert);
+  console.log(`[TLS] Self-signed certificate created (SHA-256 ${info.fingerprint})`);
+  return { cert, key, ...info, selfSigned: true };
+}
+
+module.exports = { loadOrCreateCertificate };
@@ -1,22 +1,63 @@
 const { WebSocketServer } = require('ws');
+const https = require('https');
 const { networkInterfaces, hostname, uptime, freemem, platform } = require('os');
-const { gunzip } = require('zlib');
-const { promisify } = require('util');
+const { StreamFramer } = require('./dist-main/main/stream-framer');
+const { PROTOCOL_VERSION, ELEMENT_TYPES, CANVAS_LIMITS, DEVICE_EVENT_TYPES, DOCUMENT_TYPES } = require('./capabilities');
+const { CodecRegistry, PayloadTooLargeError } = require('./payload-codecs');
 
-const pGunzip = promisify(gunzip);
+// Blit payloads start with an 8-byte region header: x, y, width, height (uint16 LE)
+const BLIT_REGION_HEADER_SIZE = 8;
+
+// 0x0001 = DATA, 0x0002 = COMMAND, 0x0003 = binary sensors (MessagePack), 0x3003 = RGB565 blit, 0x3004 = compressed blit
+const KNOWN_MESSAGE_TYPES = new Set([0x0001, 0x0002, 0x0003, 0x3003, 0x3004]);
+const SENSOR_BINARY = 0x0003;
+
+// DATA, COMMAND and binary sensor frames may carry a codec id in the high byte of the type field
+const isDocumentType = (baseType) => baseType === 0x0001 || baseType === 0x0002 || baseType === SENSOR_BINARY;
+const isBlitType = (type) => type === 0x3003 || type === 0x3004;
+
+// Screenshot replies sent to the host: 0x3005 = PNG, 0x3006 = RGB565 with a blit region header
+const SCREENSHOT_PNG = 0x3005;
+const SCREENSHOT_RGB565 = 0x3006;
+
+// Reported when the app version is not supplied
+const FIRMWARE_VERSION = '0.0.1';
+
+// Unpaired clients must send an auth/pair document within this window
+const AUTH_TIMEOUT_MS = 10000;
 
 class WebSocketServerManager {
-  constructor(port = 8081) {
+  // options.tls = { cert, key, fingerprint } serves wss:// instead of ws://
+  // options.advertiser = MdnsAdvertiser started and stopped with the server
+  // options.appVersion / options.commands are announced in the capabilities block
+  // options.coalescer = SensorCoalescer whose merge/drop counts are reported in getStats()
+  constructor(port = 8081, options = {}) {
     this.port = port;
+    this.tls = options.tls || null;
+    this.advertiser = options.advertiser || null;
+    this.appVersion = options.appVersion || FIRMWARE_VERSION;
+    this.commands = options.commands || [];
+    this.coalescer = options.coalescer || null;
+    this.codecs = new CodecRegistry();
+    this.canvasSize = null; // { width, height } of the current layout, advertised over mDNS
     this.wss = null;
+    this.httpsServer = null;
     this.clients = new Map();
     this.nextClientId = 1;
     this.messagesReceived = 0;
     this.messagesSent = 0;
+    this.decompressionFailures = 0;
+    this.parseFailures = 0; // DATA and COMMAND payloads that were not valid JSON
+    this.framingTotals = { framesDecoded: 0, framingErrors: 0, bytesDiscarded: 0 };
     this.cachedMac = null;
     this.onMessage = null; // Callback for forwarding messages
+    this.onBlit = null; // Callback for forwarding decoded framebuffer regions
+    this.onCommand = null; // Async callback that runs COMMAND documents
+    this.pairing = null; // PairingManager; when pairing is required clients must authenticate first
+    this.onSensorFrame = null; // Callback for decompressed binary sensor frames (0x0003)
+    this.onHostInfo = null; // Called with { clientId, appVersion, protocolVersion, compatible } from host-hello
     
-    // Stream processor state per client
+    // Stream framer per client
     this.clientProcessors = new Map();
   }
 
@@ -27,15 +68,19 @@ class WebSocketServerManager {
     }
 
     try {
-      this.wss = new WebSocketServer({ host: '0.0.0.0', port: this.port });
-
-      this.wss.on('listening', () => {
-        const ips = this.getLocalIPs();
-        console.log(`[WebSocket] ✅ Server started on port ${this.port}`);
-        console.log(`[WebSocket] Available at: ${ips.map(ip => `ws://${ip}:${this.port}/`).join(', ')}`);
-      });
+      if (this.tls) {
+        this.httpsServer = https.createServer({ cert: this.tls.cert, key: this.tls.key });
+        this.wss = new WebSocketServer({ server: this.httpsServer });
+        this.httpsServer.on('error', (err) => {
+          console.error('[WebSocket] TLS server error:', err);
+        });
+        this.httpsServer.listen(this.port, '0.0.0.0', () => this.handleListening());
+      } else {
+        this.wss = new WebSocketServer({ host: '0.0.0.0', port: this.port });
+        this.wss.on('listening', () => this.handleListening());
+      }
 
-      this.wss.on('connection', (ws) => this.handleConnection(ws));
+      this.wss.on('connection', (ws, req) => this.handleConnection(ws, req));
 
       this.wss.on('error', (err) => {
         console.error('[WebSocket] Server error:', err);
@@ -48,19 +93,75 @@ class WebSocketServerManager {
     }
   }
 
+  handleListening() {
+    const ips = this.getLocalIPs();
+    const scheme = this.getScheme();
+    console.log(`[WebSocket] ✅ Server started on port ${this.port}${this.tls ? ' (TLS)' : ''}`);
+    console.log(`[WebSocket] Available at: ${ips.map(ip => `${scheme}://${ip}:${this.port}/`).join(', ')}`);
+    if (this.tls?.fingerprint) {
+      console.log(`[WebSocket] Certificate SHA-256 fingerprint: ${this.tls.fingerprint}`);
+    }
+
+    if (this.advertiser) {
+      this.advertiser.start(this.port, this.getServiceTxt());
+    }
+  }
+
+  // TXT record for the mDNS advertisement; values must be strings
+  getServiceTxt() {
+    const txt = {
+      mac: this.getMacAddress(),
+      port: String(this.port),
+      firmware: this.appVersion,
+      proto: String(PROTOCOL_VERSION),
+      types: Array.from(KNOWN_MESSAGE_TYPES, type => `0x${type.toString(16).padStart(4, '0')}`).join(','),
+      secure: this.tls ? '1' : '0'
+    };
+
+    // Omitted until the first layout arrives; empty TXT values decode inconsistently
+    if (this.canvasSize) {
+      txt.canvas = `${this.canvasSize.width}x${this.canvasSize.height}`;
+    }
+    return txt;
+  }
+
+  setCanvasSize(width, height) {
+    if (this.canvasSize?.width === width && this.canvasSize?.height === height) return;
+    this.canvasSize = { width, height };
+
+    if (this.advertiser && this.wss) {
+      this.advertiser.update(this.getServiceTxt());
+    }
+  }
+
+  getScheme() {
+    return this.tls ? 'wss' : 'ws';
+  }
+
   stop() {
     if (!this.wss) return;
 
+    if (this.advertiser) {
+      this.advertiser.stop();
+    }
+
     for (const [id, ws] of this.clients) {
       try {
         ws.close(1001, 'server closing');
       } catch (e) {}
     }
 
+    for (const clientId of this.clientProcessors.keys()) {
+      this.releaseProcessor(clientId);
+    }
+
     this.clients.clear();
-    this.clientProcessors.clear();
     this.wss.close();
     this.wss = null;
+    if (this.httpsServer) {
+      this.httpsServer.close();
+      this.httpsServer = null;
+    }
     console.log('[WebSocket] Server stopped');
   }
 
@@ -68,18 +169,38 @@ class WebSocketServerManager {
     return !!this.wss;
   }
 
-  handleConnection(ws) {
+  handleConnection(ws, req) {
     const clientId = this.nextClientId++;
+    const proc = this.createStreamProcessor(clientId);
+    proc.remoteAddress = req?.socket?.remoteAddress ?? null;
     this.clients.set(clientId, ws);
-    this.clientProcessors.set(clientId, this.createStreamProcessor());
+    this.clientProcessors.set(clientId, proc);
 
     console.log(`[WebSocket] Client ${clientId} connected (total: ${this.clients.size})`);
 
-    // Send device info
-    this.sendDeviceInfo(ws, clientId);
+    // Device info and capabilities wait until the client has authenticated
+    if (proc.authenticated) {
+      this.sendDeviceInfo(ws, clientId);
+    } else {
+      ws.send(JSON.stringify({ type: 'auth-required', clientId, timestamp: Date.now() }));
+      this.messagesSent++;
+    }
+
+    if (!proc.authenticated) {
+      proc.authTimer = setTimeout(() => {
+        this.rejectClient(proc, 'auth_timeout', 'No auth or pair document received');
+      }, AUTH_TIMEOUT_MS);
+    }
 
     ws.on('message', async (data, isBinary) => {
       try {
+        // Until authenticated, a text frame can only be the auth/pair document
+        if (!isBinary && !proc.authenticated) {
+          this.handleAuth(proc, data.toString());
+          this.messagesReceived++;
+          return;
+        }
+
         // Handle text ping/heartbeat
         if (!isBinary) {
           const msg = data.toString();
@@ -112,7 +233,7 @@ class WebSocketServerManager {
 
     ws.on('close', () => {
       this.clients.delete(clientId);
-      this.clientProcessors.delete(clientId);
+      this.releaseProcessor(clientId);
       console.log(`[WebSocket] Client ${clientId} disconnected (total: ${this.clients.size})`);
     });
 
@@ -121,125 +242,471 @@ class WebSocketServerManager {
     });
   }
 
-  createStreamProcessor() {
+  createStreamProcessor(clientId) {
     return {
-      readingHeader: true,
-      bytesRead: 0,
-      payloadLength: 0,
-      headerBuffer: Buffer.alloc(8),
-      payloadBuffer: null,
-      typeField: 0
+      clientId,
+      framer: new StreamFramer({
+        label: `[WebSocket] Client ${clientId}:`,
+        isKnownType: (type) => KNOWN_MESSAGE_TYPES.has(type) ||
+          (isDocumentType(type & 0xff) && this.codecs.has(type >> 8))
+      }),
+      authenticated: !this.isPairingRequired(),
+      hostId: null,
+      hostInfo: null, // { appVersion, protocolVersion, compatible } from host-hello
+      remoteAddress: null,
+      connectedAt: Date.now(),
+      authTimer: null,
+      closed: false
     };
   }
 
-  async processData(proc, buf) {
-    if (!buf || buf.length === 0) return;
+  isPairingRequired() {
+    return !!this.pairing && this.pairing.isRequired();
+  }
 
-    // Stage 1: Read 8-byte header
-    if (proc.readingHeader) {
-      const headerCopyLen = Math.min(buf.length, 8 - proc.bytesRead);
-      buf.copy(proc.headerBuffer, proc.bytesRead, 0, headerCopyLen);
-      proc.bytesRead += headerCopyLen;
-
-      if (proc.bytesRead >= 8) {
-        // Parse header
-        const length = proc.headerBuffer.readUInt32LE(0);
-        const type = proc.headerBuffer.readUInt16LE(4);
-        const route = proc.headerBuffer.readUInt16LE(6);
-
-        if (length === 0 || length > 8 * 1024 * 1024) {
-          console.error('[WebSocket] Invalid payload length:', length);
-          this.resetProcessor(proc);
-          return;
-        }
+  // Handles the first message of an unauthenticated client: { type: 'auth', token } or { type: 'pair', code, hostName }
+  handleAuth(proc, text) {
+    if (proc.closed) return;
 
-        proc.payloadLength = length;
-        proc.typeField = type;
-        proc.readingHeader = false;
-        proc.bytesRead = 0;
-        proc.payloadBuffer = Buffer.alloc(length);
+    let doc = null;
+    try {
+      doc = JSON.parse(text);
+    } catch (e) {}
+
+    if (doc?.type === 'auth') {
+      const host = this.pairing.verify(doc.token);
+      if (!host) {
+        this.rejectClient(proc, 'invalid_token', 'Token is not paired with this device');
+        return;
+      }
 
-        console.log(`[WebSocket] Header: type=0x${type.toString(16)}, length=${length}, route=0x${route.toString(16)}`);
+      this.authenticateClient(proc, host);
+      this.sendToClient(proc.clientId, { type: 'auth-ok', hostId: host.id, timestamp: Date.now() });
+      this.sendDeviceInfo(this.clients.get(proc.clientId), proc.clientId);
+      return;
+    }
 
-        // Copy remaining data to payload
-        if (headerCopyLen < buf.length) {
-          const remaining = buf.length - headerCopyLen;
-          buf.copy(proc.payloadBuffer, 0, headerCopyLen, buf.length);
-          proc.bytesRead += remaining;
-        }
+    if (doc?.type === 'pair') {
+      // Codes are only shown when the user starts pairing on the device
+      if (!doc.code) {
+        const message = this.pairing.getActiveCode()
+          ? 'Enter the code shown on the device display'
+          : 'Choose Show Pairing Code on the device, then enter the code it displays';
+        this.rejectClient(proc, 'pairing_code_required', message);
+        return;
+      }
+
+      const retryDelay = this.pairing.getRetryDelay(proc.remoteAddress);
+      if (retryDelay > 0) {
+        this.rejectClient(proc, 'pairing_locked', `Too many wrong pairing codes, try again in ${Math.ceil(retryDelay / 1000)} s`);
+        return;
+      }
+
+      const paired = this.pairing.pair(doc.code, doc.hostName, proc.remoteAddress);
+      if (!paired) {
+        this.rejectClient(proc, 'invalid_code', 'Pairing code is wrong or has expired');
+        return;
+      }
+
+      this.authenticateClient(proc, { id: paired.hostId, name: doc.hostName });
+      this.sendToClient(proc.clientId, {
+        type: 'pair-success',
+        hostId: paired.hostId,
+        token: paired.token,
+        timestamp: Date.now()
+      });
+      this.sendDeviceInfo(this.clients.get(proc.clientId), proc.clientId);
+      return;
+    }
+
+    this.rejectClient(proc, 'auth_required', 'First message must be an auth or pair document');
+  }
+
+  authenticateClient(proc, host) {
+    clearTimeout(proc.authTimer);
+    proc.authTimer = null;
+    proc.authenticated = true;
+    proc.hostId = host.id;
+    console.log(`[WebSocket] Client ${proc.clientId} authenticated as ${host.name || host.id}`);
+  }
+
+  rejectClient(proc, code, message) {
+    if (proc.closed) return;
+    proc.closed = true;
+    clearTimeout(proc.authTimer);
+
+    console.log(`[WebSocket] Client ${proc.clientId} rejected: ${code}`);
+    this.sendToClient(proc.clientId, { type: 'auth-error', error: { code, message }, timestamp: Date.now() });
+
+    const ws = this.clients.get(proc.clientId);
+    if (ws) {
+      ws.close(4401, code);
+    }
+  }
+
+  // Closes every connection that authenticated with a revoked host token
+  disconnectHost(hostId) {
+    for (const proc of this.clientProcessors.values()) {
+      if (proc.hostId !== hostId) continue;
+      proc.closed = true;
+      const ws = this.clients.get(proc.clientId);
+      if (ws) {
+        ws.close(4403, 'revoked');
       }
     }
-    // Stage 2: Accumulate payload
-    else if (proc.payloadBuffer) {
-      const remaining = proc.payloadLength - proc.bytesRead;
-      const copyLen = Math.min(buf.length, remaining);
-      buf.copy(proc.payloadBuffer, proc.bytesRead, 0, copyLen);
-      proc.bytesRead += copyLen;
+  }
+
+  // Folds a disconnected client's framing counters into the server totals
+  releaseProcessor(clientId) {
+    const proc = this.clientProcessors.get(clientId);
+    if (!proc) return;
+
+    clearTimeout(proc.authTimer);
+    const stats = proc.framer.getStats();
+    for (const key of Object.keys(this.framingTotals)) {
+      this.framingTotals[key] += stats[key];
     }
+    this.clientProcessors.delete(clientId);
+  }
+
+  async processData(proc, buf) {
+    if (!buf || buf.length === 0) return;
 
-    // Stage 3: Process complete message
-    if (!proc.readingHeader && proc.payloadBuffer && proc.bytesRead >= proc.payloadLength) {
-      await this.handleMessage(proc);
-      this.resetProcessor(proc);
+    // A single WebSocket frame may carry several messages, or only part of one
+    for (const frame of proc.framer.push(buf)) {
+      if (proc.closed) break;
+      console.log(`[WebSocket] Header: type=0x${frame.type.toString(16)}, length=${frame.payload.length}, route=0x${frame.route.toString(16)}`);
+      await this.handleMessage(proc, frame);
     }
   }
 
-  async handleMessage(proc) {
-    if (!proc.payloadBuffer) return;
+  async handleMessage(proc, frame) {
+    const { type, payload } = frame;
+    const baseType = type & 0xff;
+    // The route field selects which screen the message is meant for
+    const meta = { clientId: proc.clientId, route: frame.route };
+
+    // Only a JSON auth/pair document is accepted before authentication
+    if (!proc.authenticated && (isBlitType(type) || baseType === SENSOR_BINARY)) {
+      this.rejectClient(proc, 'auth_required', 'First message must be an auth or pair document');
+      return;
+    }
+
+    // 0x3003 = RGB565 blit, 0x3004 = compressed blit
+    if (isBlitType(type)) {
+      await this.handleBlit(proc, type, payload, meta);
+    }
+    // 0x0001 = DATA, 0x0002 = COMMAND, 0x0003 = binary sensors (high byte = codec id, 0 = detect by magic bytes)
+    else if (isDocumentType(baseType)) {
+      let deliver = (buf) => this.forwardMessage(buf, meta);
+      if (baseType === 0x0002) {
+        deliver = (buf) => this.handleCommand(buf, meta);
+      } else if (baseType === SENSOR_BINARY) {
+        deliver = (buf) => this.forwardSensorFrame(buf, meta);
+      }
 
-    const type = proc.typeField;
+      if (!proc.authenticated) {
+        deliver = (buf) => this.handleAuth(proc, buf.toString('utf8'));
+      }
 
-    // 0x0001 = DATA, 0x0002 = COMMAND
-    if (type === 0x0001 || type === 0x0002) {
-      // Check if gzip compressed
-      if (proc.payloadLength >= 2 && 
-          proc.payloadBuffer[0] === 0x1F && 
-          proc.payloadBuffer[1] === 0x8B) {
-        try {
-          const decompressed = await pGunzip(proc.payloadBuffer);
-          this.forwardMessage(decompressed);
-          console.log(`[WebSocket] Processed compressed message (${proc.payloadLength} -> ${decompressed.length} bytes)`);
-        } catch (e) {
-          console.error('[WebSocket] Decompression failed:', e.message);
+      let decoded;
+      try {
+        decoded = await this.codecs.decode(payload, type >> 8);
+      } catch (e) {
+        console.error('[WebSocket] Decompression failed:', e.message);
+        this.decompressionFailures++;
+        if (e instanceof PayloadTooLargeError) {
+          this.rejectPayload(proc, type, meta, e);
         }
+        return;
+      }
+
+      await deliver(decoded.buffer);
+      if (decoded.codec) {
+        console.log(`[WebSocket] Processed ${decoded.codec} message (${payload.length} -> ${decoded.buffer.length} bytes)`);
       } else {
-        this.forwardMessage(proc.payloadBuffer);
-        console.log(`[WebSocket] Processed uncompressed message (${proc.payloadLength} bytes)`);
+        console.log(`[WebSocket] Processed uncompressed message (${payload.length} bytes)`);
       }
     }
-    // 0x3003 = RGB565 blit, 0x3004 = compressed blit
-    else if (type === 0x3003 || type === 0x3004) {
-      console.log(`[WebSocket] Ignoring blit frame (type=0x${type.toString(16)}, ${proc.payloadLength} bytes)`);
-    }
     else {
       console.log(`[WebSocket] Unknown message type: 0x${type.toString(16)}`);
     }
   }
 
-  forwardMessage(buf) {
+  forwardMessage(buf, meta = {}) {
+    let doc;
     try {
-      const doc = JSON.parse(buf.toString('utf8'));
-      console.log('[WebSocket] Received:', doc.type || 'unknown');
-      
-      // Forward to callback if set
-      if (this.onMessage && typeof this.onMessage === 'function') {
-        this.onMessage(doc);
-      }
+      doc = JSON.parse(buf.toString('utf8'));
     } catch (e) {
       console.error('[WebSocket] JSON parse failed:', e.message);
+      this.parseFailures++;
+      return;
     }
+
+    console.log('[WebSocket] Received:', doc.type || 'unknown');
+    this.deliverDocument(doc, meta);
   }
 
-  resetProcessor(proc) {
-    proc.readingHeader = true;
-    proc.bytesRead = 0;
-    proc.payloadLength = 0;
-    proc.typeField = 0;
-    proc.headerBuffer.fill(0);
-    proc.payloadBuffer = null;
+  forwardSensorFrame(buf, meta) {
+    if (this.onSensorFrame && typeof this.onSensorFrame === 'function') {
+      this.onSensorFrame(buf, meta);
+    }
+  }
+
+  deliverDocument(doc, meta) {
+    // host-hello is protocol negotiation and is answered here rather than forwarded
+    if (doc.type === 'host-hello') {
+      this.handleHostHello(doc, meta);
+      return;
+    }
+
+    // Forward to callback if set
+    if (this.onMessage && typeof this.onMessage === 'function') {
+      this.onMessage(doc, meta);
+    }
+  }
+
+  // Hosts announce { type: 'host-hello', appVersion, protocolVersion } and get the capabilities back
+  handleHostHello(doc, meta) {
+    const info = {
+      clientId: meta.clientId,
+      appVersion: doc.appVersion ?? null,
+      protocolVersion: doc.protocolVersion ?? null,
+      compatible: doc.protocolVersion === PROTOCOL_VERSION
+    };
+
+    const proc = this.clientProcessors.get(meta.clientId);
+    if (proc) {
+      proc.hostInfo = { appVersion: info.appVersion, protocolVersion: info.protocolVersion, compatible: info.compatible };
+    }
+
+    if (!info.compatible) {
+      console.warn(`[WebSocket] Client ${meta.clientId} speaks protocol ${info.protocolVersion}, device speaks ${PROTOCOL_VERSION}`);
+    }
+
+    this.sendToClient(meta.clientId, {
+      type: 'device-capabilities',
+      compatible: info.compatible,
+      capabilities: this.getCapabilities(),
+      timestamp: Date.now()
+    });
+
+    if (this.onHostInfo && typeof this.onHostInfo === 'function') {
+      this.onHostInfo(info);
+    }
+  }
+
+  getCapabilities() {
+    return {
+      protocolVersion: PROTOCOL_VERSION,
+      appVersion: this.appVersion,
+      messageTypes: Array.from(KNOWN_MESSAGE_TYPES),
+      replyTypes: [SCREENSHOT_PNG, SCREENSHOT_RGB565],
+      // Codec ids go in the high byte of DATA/COMMAND types; magic codecs are also detected without it
+      compression: this.codecs.list().map(codec => codec.name),
+      codecs: this.codecs.list(),
+      maxDecodedLength: this.codecs.maxDecodedLength,
+      // 0x0003 frames are MessagePack and index into the sensorTags table sent with rive_config
+      sensorEncodings: ['json', 'msgpack'],
+      documents: DOCUMENT_TYPES,
+      elementTypes: ELEMENT_TYPES,
+      canvas: CANVAS_LIMITS,
+      deviceEvents: DEVICE_EVENT_TYPES,
+      commands: this.commands
+    };
+  }
+
+  async handleCommand(buf, meta) {
+    const { clientId } = meta;
+    let doc;
+    try {
+      doc = JSON.parse(buf.toString('utf8'));
+    } catch (e) {
+      console.error('[WebSocket] Command JSON parse failed:', e.message);
+      this.parseFailures++;
+      this.sendToClient(clientId, {
+        type: 'command-error',
+        id: null,
+        command: null,
+        error: { code: 'invalid_json', message: e.message },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // Older hosts send rive_config/rive_sensor documents as COMMAND frames
+    if (!doc.command && doc.type) {
+      console.log('[WebSocket] Received:', doc.type);
+      this.deliverDocument(doc, meta);
+      return;
+    }
+
+    console.log('[WebSocket] Received command:', doc.command || 'unknown');
+
+    if (!this.onCommand || typeof this.onCommand !== 'function') {
+      this.sendToClient(clientId, {
+        type: 'command-error',
+        id: doc.id ?? null,
+        command: doc.command ?? null,
+        error: { code: 'unsupported', message: 'Commands are not handled by this device' },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    try {
+      const result = await this.onCommand(doc, meta);
+      this.sendToClient(clientId, {
+        type: 'command-ack',
+        id: doc.id ?? null,
+        command: doc.command,
+        result,
+        timestamp: Date.now()
+      });
+    } catch (e) {
+      console.error(`[WebSocket] Command ${doc.command} failed:`, e.message);
+      this.sendToClient(clientId, {
+        type: 'command-error',
+        id: doc.id ?? null,
+        command: doc.command ?? null,
+        error: { code: e.code || 'command_failed', message: e.message },
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  sendToClient(clientId, doc) {
+    const ws = this.clients.get(clientId);
+    if (!ws || ws.readyState !== ws.OPEN) return false;
+
+    try {
+      ws.send(JSON.stringify(doc));
+      this.messagesSent++;
+      return true;
+    } catch (e) {
+      console.error(`[WebSocket] Failed to send to client ${clientId}:`, e.message);
+      return false;
+    }
+  }
+
+  // Sends a document to every authenticated client; returns how many it reached
+  broadcast(doc) {
+    let sent = 0;
+    for (const proc of this.clientProcessors.values()) {
+      if (proc.authenticated && !proc.closed && this.sendToClient(proc.clientId, doc)) {
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  // Sends a binary frame with the standard 8-byte header (uint32 length, uint16 type, uint16 route)
+  sendFrame(clientId, type, route, payload) {
+    const ws = this.clients.get(clientId);
+    if (!ws || ws.readyState !== ws.OPEN) return false;
+
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(payload.length, 0);
+    header.writeUInt16LE(type, 4);
+    header.writeUInt16LE(route, 6);
+
+    try {
+      ws.send(Buffer.concat([header, payload]));
+      this.messagesSent++;
+      return true;
+    } catch (e) {
+      console.error(`[WebSocket] Failed to send frame to client ${clientId}:`, e.message);
+      return false;
+    }
+  }
+
+  // Sends a captured screen as PNG (0x3005) or RGB565 (0x3006, prefixed by an x/y/width/height region header
+  // like 0x3003 blits). Returns the frame type, or null if the client is gone.
+  sendScreenshot(clientId, route, { format, width, height, data }) {
+    let type = SCREENSHOT_PNG;
+    let payload = data;
+
+    if (format === 'rgb565') {
+      const region = Buffer.alloc(BLIT_REGION_HEADER_SIZE);
+      region.writeUInt16LE(0, 0);
+      region.writeUInt16LE(0, 2);
+      region.writeUInt16LE(width, 4);
+      region.writeUInt16LE(height, 6);
+      type = SCREENSHOT_RGB565;
+      payload = Buffer.concat([region, data]);
+    }
+
+    return this.sendFrame(clientId, type, route, payload) ? type : null;
+  }
+
+  // Tells the sender a frame was dropped because it decodes past the size limit
+  rejectPayload(proc, type, meta, error) {
+    if (!proc.authenticated) {
+      this.rejectClient(proc, error.code, error.message);
+      return;
+    }
+    this.sendProtocolError(proc.clientId, error.code, error.message, { messageType: type, route: meta.route ?? 0 });
+  }
+
+  // Reports a message the device could not use; details says which one ({ messageType, route, document })
+  sendProtocolError(clientId, code, message, details = {}) {
+    return this.sendToClient(clientId, {
+      type: 'protocol-error',
+      ...details,
+      error: { code, message },
+      timestamp: Date.now()
+    });
+  }
+
+  async handleBlit(proc, type, payload, meta = {}) {
+    if (payload.length < BLIT_REGION_HEADER_SIZE) {
+      console.error(`[WebSocket] Blit frame too short (${payload.length} bytes)`);
+      return;
+    }
+
+    const x = payload.readUInt16LE(0);
+    const y = payload.readUInt16LE(2);
+    const width = payload.readUInt16LE(4);
+    const height = payload.readUInt16LE(6);
+    let pixels = payload.subarray(BLIT_REGION_HEADER_SIZE);
+    const expected = width * height * 2;
+    if (expected === 0) {
+      console.error(`[WebSocket] Invalid blit region ${width}x${height} at (${x},${y})`);
+      return;
+    }
+    // The renderer grows its framebuffer to fit each region, so regions must stay inside the canvas limits
+    if (x + width > CANVAS_LIMITS.maxWidth || y + height > CANVAS_LIMITS.maxHeight) {
+      console.error(`[WebSocket] Blit region ${width}x${height} at (${x},${y}) exceeds ${CANVAS_LIMITS.maxWidth}x${CANVAS_LIMITS.maxHeight}`);
+      return;
+    }
+
+    // 0x3004 carries compressed RGB565 data after the region header; without magic bytes it is zlib-deflated.
+    // A region never needs more than width * height * 2 bytes, which also bounds the decompression.
+    if (type === 0x3004) {
+      try {
+        pixels = (await this.codecs.decode(pixels, 0, 'deflate', Math.min(expected, this.codecs.maxDecodedLength))).buffer;
+      } catch (e) {
+        console.error('[WebSocket] Blit decompression failed:', e.message);
+        this.decompressionFailures++;
+        if (e instanceof PayloadTooLargeError) {
+          this.rejectPayload(proc, type, meta, e);
+        }
+        return;
+      }
+    }
+
+    if (pixels.length < expected) {
+      console.error(`[WebSocket] Invalid blit region ${width}x${height} at (${x},${y}) with ${pixels.length} pixel bytes`);
+      return;
+    }
+
+    if (this.onBlit && typeof this.onBlit === 'function') {
+      this.onBlit({ x, y, width, height, pixels: pixels.subarray(0, expected) }, meta);
+    }
   }
 
   sendDeviceInfo(ws, clientId) {
+    if (!ws) return;
     const info = {
       type: 'device-connected',
       timestamp: Date.now().toString(),
@@ -247,8 +714,11 @@ class WebSocketServerManager {
       ip: this.getLocalIPv4(),
       port: this.port,
       protocol: 'WebSocket',
+      secure: !!this.tls,
       clientId,
-      note: 'Binary protocol - 8-byte header + payload'
+      authRequired: this.isPairingRequired(),
+      note: 'Binary protocol - 8-byte header + payload',
+      capabilities: this.getCapabilities()
     };
     ws.send(JSON.stringify(info));
     this.messagesSent++;
@@ -263,8 +733,9 @@ class WebSocketServerManager {
       ip: this.getLocalIPv4(),
       uptime: Math.floor(uptime() * 1000),
       freeHeap: freemem(),
-      firmware: '0.0.1',
-      platform: platform()
+      firmware: this.appVersion,
+      platform: platform(),
+      capabilities: this.getCapabilities()
     };
   }
 
@@ -316,11 +787,39 @@ class WebSocketServerManager {
     return ips.length ? ips : ['0.0.0.0'];
   }
 
+  getFramingStats() {
+    const totals = { ...this.framingTotals };
+    for (const proc of this.clientProcessors.values()) {
+      const stats = proc.framer.getStats();
+      for (const key of Object.keys(totals)) {
+        totals[key] += stats[key];
+      }
+    }
+    return totals;
+  }
+
+  // Connected clients as reported by the HTTP status API
+  getClients() {
+    return Array.from(this.clientProcessors.values(), (proc) => ({
+      clientId: proc.clientId,
+      remoteAddress: proc.remoteAddress,
+      connectedAt: proc.connectedAt,
+      authenticated: proc.authenticated,
+      hostId: proc.hostId,
+      host: proc.hostInfo
+    }));
+  }
+
   getStats() {
     return {
       clients: this.clients.size,
       messagesReceived: this.messagesReceived,
-      messagesSent: this.messagesSent
+      messagesSent: this.messagesSent,
+      decompressionFailures: this.decompressionFailures,
+      parseFailures: this.parseFailures,
+      framing: this.getFramingStats(),
+      codecs: this.codecs.getStats(),
+      sensorCoalescing: this.coalescer ? this.coalescer.getStats() : null
     };
   }
 }